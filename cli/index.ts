@@ -0,0 +1,194 @@
+import { writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { AuthError, describeError } from '../src/api/errors';
+import {
+  cancelJob,
+  extractVideoUrl,
+  fetchMotionLibrary,
+  generateMemoryVideo,
+  isCancelledError,
+  SILENT_LOGGER,
+  type ApiLogger,
+} from '../src/api/higgsfield';
+import { randomSeed } from '../src/lib/generationSettings';
+import { applyMotionLibrary, isMotionAvailable, toMotionSettings } from '../src/lib/motionCatalog';
+import { resolveInputs, type InputItem } from './inputs';
+import { USAGE, UsageError, loadOptions, type CliOptions } from './options';
+import { writeReport, type ReportRow } from './report';
+
+// `yarn memory-lane <folder-or-url-list> [options]` - batch generation
+// without a browser, using the same client as the web app. See USAGE.
+
+const print = console.log.bind(console);
+const printError = console.error.bind(console);
+
+const DEFAULT_REPORT_NAME = 'memory-lane-report.json';
+
+const downloadTo = async (url: string, path: string, signal: AbortSignal) => {
+  const response = await fetch(url, { signal });
+  if (!response.ok) throw new Error(`Could not download the video (HTTP ${response.status}).`);
+  await writeFile(path, Buffer.from(await response.arrayBuffer()));
+};
+
+// The API client narrates every request and poll, which is noise in a batch run
+const apiLogger = (options: CliOptions): ApiLogger => (options.verbose ? console : SILENT_LOGGER);
+
+const runJob = async (item: InputItem, options: CliOptions, signal: AbortSignal, running: Set<string>) => {
+  const startedAt = Date.now();
+  const seed = options.seed ?? randomSeed();
+  const row: ReportRow = {
+    source: item.source,
+    status: 'failed',
+    requestId: null,
+    seed,
+    outputPath: null,
+    error: null,
+    durationMs: 0,
+  };
+
+  if (item.problem) {
+    printError(`${item.source}: ${item.problem}`);
+    return { ...row, error: item.problem };
+  }
+
+  if (options.dryRun) {
+    print(`[dry-run] ${item.source} -> ${item.outputPath} (seed ${seed})`);
+    return { ...row, status: 'dry-run' as const, outputPath: item.outputPath };
+  }
+
+  try {
+    const response = await generateMemoryVideo({
+      imageUrl: await item.loadImageUrl(),
+      prompt: options.prompt,
+      seed,
+      motions: toMotionSettings(options.motions),
+      enhancePrompt: options.enhancePrompt,
+      apiKey: options.apiKey,
+      apiSecret: options.apiSecret,
+      endpoints: options.endpoints,
+      signal,
+      logger: apiLogger(options),
+      onJobCreated: (job) => {
+        row.requestId = job.requestId;
+        running.add(job.requestId);
+        print(`${item.source}: queued as ${job.requestId}`);
+      },
+    });
+    const videoUrl = extractVideoUrl(response);
+    if (!videoUrl) throw new Error(`The job finished without a video (status ${response.status ?? 'unknown'}).`);
+    await downloadTo(videoUrl, item.outputPath, signal);
+    row.status = 'completed';
+    row.outputPath = item.outputPath;
+    print(`${item.source}: saved ${item.outputPath}`);
+  } catch (error) {
+    // The web app's copy points at its settings screen
+    row.error = isCancelledError(error)
+      ? 'Cancelled'
+      : error instanceof AuthError
+        ? 'The API key or secret was rejected. Check HIGGSFIELD_API_KEY / HIGGSFIELD_API_SECRET or the config file.'
+        : describeError(error).message;
+    printError(`${item.source}: ${row.error}`);
+  } finally {
+    if (row.requestId) running.delete(row.requestId);
+  }
+  return { ...row, durationMs: Date.now() - startedAt };
+};
+
+// Presets only resolve to motion ids once the library is loaded. Resolves to
+// false when a chosen motion isn't in it, since every job would fail.
+const loadMotionLibrary = async (options: CliOptions) => {
+  try {
+    applyMotionLibrary(await fetchMotionLibrary({ ...options }));
+  } catch (error) {
+    printError(`Could not load the motion library: ${describeError(error).message}`);
+  }
+  const missing = options.motions.filter((motion) => !isMotionAvailable(motion.key));
+  if (missing.length > 0) {
+    printError(
+      `Not in the motion library: ${missing.map((motion) => motion.key).join(', ')}. Choose others with --motion.`
+    );
+    return false;
+  }
+  return true;
+};
+
+// Runs up to `concurrency` jobs at a time, keeping the report in input order
+const runAll = async (items: InputItem[], options: CliOptions, signal: AbortSignal, running: Set<string>) => {
+  const rows: ReportRow[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length && !signal.aborted) {
+      const index = next++;
+      rows[index] = await runJob(items[index], options, signal, running);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(options.concurrency, items.length) }, worker));
+  return rows.filter(Boolean);
+};
+
+const main = async () => {
+  let options: CliOptions | null;
+  try {
+    options = await loadOptions(process.argv.slice(2));
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    printError(`${error.message}\n\n${USAGE}`);
+    return 2;
+  }
+  if (!options) {
+    print(USAGE);
+    return 0;
+  }
+  if (!options.dryRun && !(options.apiKey && options.apiSecret)) {
+    printError('No credentials: set HIGGSFIELD_API_KEY and HIGGSFIELD_API_SECRET or add them to the config file.');
+    return 2;
+  }
+
+  const { items, baseDir } = await resolveInputs(options.input);
+  if (items.length === 0) {
+    printError(`No images found in ${options.input}.`);
+    return 1;
+  }
+  if (!options.dryRun && !(await loadMotionLibrary(options))) return 2;
+  print(`${options.dryRun ? 'Would process' : 'Processing'} ${items.length} image(s), ${options.concurrency} at a time.`);
+
+  // Ctrl+C stops new jobs and asks the API to drop the ones in flight
+  const controller = new AbortController();
+  const running = new Set<string>();
+  const stop = () => {
+    print('Stopping...');
+    controller.abort();
+    running.forEach((requestId) =>
+      cancelJob({
+        requestId,
+        apiKey: options.apiKey,
+        apiSecret: options.apiSecret,
+        endpoints: options.endpoints,
+        logger: apiLogger(options),
+      })
+    );
+  };
+  process.once('SIGINT', stop);
+
+  const rows = await runAll(items, options, controller.signal, running);
+  process.off('SIGINT', stop);
+
+  const reportPath = options.report ?? join(baseDir, DEFAULT_REPORT_NAME);
+  await writeReport(reportPath, rows);
+
+  const failed = rows.filter((row) => row.status === 'failed').length;
+  print(
+    options.dryRun
+      ? `Dry run: ${rows.length - failed} job(s) planned, ${failed} rejected. Report: ${reportPath}`
+      : `Done: ${rows.length - failed} ok, ${failed} failed. Report: ${reportPath}`
+  );
+  return failed > 0 || controller.signal.aborted ? 1 : 0;
+};
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    printError(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,86 @@
+import { readdir, readFile, stat } from 'node:fs/promises';
+import { basename, dirname, extname, join } from 'node:path';
+import { MAX_UPLOAD_BYTES } from '../src/lib/imagePreparation';
+
+// One image to animate and where its video goes
+export interface InputItem {
+  // What the report shows: a file name or the URL
+  source: string;
+  // Loads the image as something the API accepts (a URL or a data URL)
+  loadImageUrl: () => Promise<string>;
+  outputPath: string;
+  // Set when the image can't be sent as is; the job fails with this message
+  problem?: string;
+}
+
+export interface ResolvedInputs {
+  items: InputItem[];
+  // Where outputs and the default report go
+  baseDir: string;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+};
+
+// Suffix keeps the video from clobbering a same-named file next to it
+const outputName = (stem: string) => `${stem}-memory.mp4`;
+
+const toMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// The web app shrinks photos to the upload budget in a canvas. There's no
+// canvas here, so oversized files are reported instead of sent.
+const fromDirectory = async (dir: string): Promise<ResolvedInputs> => {
+  const names = (await readdir(dir)).filter((name) => extname(name).toLowerCase() in MIME_TYPES).sort();
+  return {
+    baseDir: dir,
+    items: await Promise.all(
+      names.map(async (name) => {
+        const path = join(dir, name);
+        const { size } = await stat(path);
+        return {
+          source: name,
+          loadImageUrl: async () => {
+            const data = await readFile(path);
+            return `data:${MIME_TYPES[extname(name).toLowerCase()]};base64,${data.toString('base64')}`;
+          },
+          outputPath: join(dir, outputName(basename(name, extname(name)))),
+          problem:
+            size > MAX_UPLOAD_BYTES
+              ? `The image is ${toMegabytes(size)}; the API accepts up to ${toMegabytes(MAX_UPLOAD_BYTES)}. Resize it first.`
+              : undefined,
+        };
+      })
+    ),
+  };
+};
+
+// Blank lines and lines starting with # are skipped
+const fromUrlList = async (file: string): Promise<ResolvedInputs> => {
+  const baseDir = dirname(file);
+  const urls = (await readFile(file, 'utf8'))
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'));
+  const width = String(urls.length).length;
+
+  return {
+    baseDir,
+    items: urls.map((url, index) => {
+      if (!/^https?:\/\//.test(url)) throw new Error(`Line ${index + 1} of ${file} is not an http(s) URL: ${url}`);
+      // Numbered so two URLs ending in the same file name don't collide
+      const stem = basename(new URL(url).pathname, extname(new URL(url).pathname)) || 'image';
+      return {
+        source: url,
+        loadImageUrl: async () => url,
+        outputPath: join(baseDir, outputName(`${String(index + 1).padStart(width, '0')}-${stem}`)),
+      };
+    }),
+  };
+};
+
+export const resolveInputs = async (input: string): Promise<ResolvedInputs> =>
+  (await stat(input)).isDirectory() ? fromDirectory(input) : fromUrlList(input);
@@ -0,0 +1,164 @@
+import { readFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { DEFAULT_PROMPT, DEFAULT_SEED, HIGGSFIELD_ENDPOINTS, type ApiEndpoints } from '../src/api/higgsfield';
+import {
+  DEFAULT_MOTIONS,
+  getMotionPreset,
+  MOTION_PRESETS,
+  type SelectedMotion,
+} from '../src/lib/motionCatalog';
+
+export interface CliOptions {
+  input: string;
+  prompt: string;
+  // null picks a new seed for every image
+  seed: number | null;
+  motions: SelectedMotion[];
+  enhancePrompt: boolean;
+  concurrency: number;
+  dryRun: boolean;
+  verbose: boolean;
+  // Report path; the extension (.json or .csv) picks the format
+  report: string | null;
+  apiKey: string;
+  apiSecret: string;
+  endpoints: ApiEndpoints;
+}
+
+// Optional JSON file with the same settings as the environment variables
+interface ConfigFile {
+  apiKey?: string;
+  apiSecret?: string;
+  endpoint?: string;
+}
+
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+export const USAGE = `Usage: memory-lane <folder-or-url-list> [options]
+
+Turns every image in a folder, or every URL in a text file (one per line),
+into a video. Videos are saved next to the inputs, with a report of how each
+job went.
+
+Options:
+  --prompt <text>        Prompt sent with every image
+  --seed <n|random>      Fixed seed, or "random" for a new one per image (default ${DEFAULT_SEED})
+  --motion <key[:s]>     Motion preset and strength 0.1-1, repeatable (default real-life)
+  --no-enhance           Send the prompt as written
+  --concurrency <n>      Jobs running at once (default 2)
+  --report <file>        Report path, .json or .csv (default memory-lane-report.json)
+  --dry-run              List what would be sent without calling the API
+  --config <file>        Credentials file (default ~/.memory-lane.json)
+  --endpoint <url>       API base URL, e.g. http://localhost:8788 for server/mockUpstream.ts
+  --verbose              Log every API call and status poll
+  -h, --help             Show this help
+
+Credentials come from HIGGSFIELD_API_KEY / HIGGSFIELD_API_SECRET or the
+config file ({ "apiKey": "...", "apiSecret": "...", "endpoint": "..." }).
+The environment wins over the file. HIGGSFIELD_UPSTREAM_URL sets the endpoint.
+
+Motion presets: ${MOTION_PRESETS.map((preset) => preset.key).join(', ')}`;
+
+const DEFAULT_CONFIG_PATH = join(homedir(), '.memory-lane.json');
+const DEFAULT_CONCURRENCY = 2;
+
+// Same routes as Higgsfield, rooted somewhere else (the mock upstream or a proxy)
+export const endpointsFor = (baseUrl: string): ApiEndpoints => {
+  const base = baseUrl.replace(/\/$/, '');
+  return {
+    generateUrl: `${base}/higgsfield-ai/dop/lite`,
+    requestsUrl: `${base}/requests`,
+    motionsUrl: `${base}/v1/motions`,
+  };
+};
+
+const readConfigFile = async (path: string, required: boolean): Promise<ConfigFile> => {
+  try {
+    return JSON.parse(await readFile(path, 'utf8'));
+  } catch (error) {
+    if (!required && error instanceof Error && 'code' in error && error.code === 'ENOENT') return {};
+    throw new UsageError(
+      `Could not read config file ${path}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+};
+
+const parseMotion = (value: string): SelectedMotion => {
+  const [key, strength] = value.split(':');
+  const preset = getMotionPreset(key);
+  if (!preset) throw new UsageError(`Unknown motion "${key}".`);
+  if (strength === undefined) return { key, strength: preset.defaultStrength };
+  const parsed = Number(strength);
+  if (!Number.isFinite(parsed)) throw new UsageError(`Invalid strength in --motion ${value}.`);
+  return { key, strength: parsed };
+};
+
+const parseSeed = (value: string | undefined) => {
+  if (value === undefined) return DEFAULT_SEED;
+  if (value === 'random') return null;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) throw new UsageError(`Invalid --seed ${value}.`);
+  return parsed;
+};
+
+// Resolves to null when only help was asked for
+export const loadOptions = async (
+  argv: string[],
+  env: Record<string, string | undefined> = process.env
+): Promise<CliOptions | null> => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        prompt: { type: 'string' },
+        seed: { type: 'string' },
+        motion: { type: 'string', multiple: true },
+        'no-enhance': { type: 'boolean', default: false },
+        concurrency: { type: 'string' },
+        report: { type: 'string' },
+        'dry-run': { type: 'boolean', default: false },
+        config: { type: 'string' },
+        endpoint: { type: 'string' },
+        verbose: { type: 'boolean', default: false },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    });
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+  const { values, positionals } = parsed;
+  if (values.help) return null;
+  if (positionals.length !== 1) throw new UsageError('Expected exactly one folder or URL list.');
+
+  const concurrency = values.concurrency === undefined ? DEFAULT_CONCURRENCY : Number(values.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new UsageError(`Invalid --concurrency ${values.concurrency}.`);
+  }
+
+  const config = await readConfigFile(values.config ?? DEFAULT_CONFIG_PATH, values.config !== undefined);
+  const endpoint = values.endpoint ?? env.HIGGSFIELD_UPSTREAM_URL ?? config.endpoint;
+
+  return {
+    input: positionals[0],
+    prompt: values.prompt ?? DEFAULT_PROMPT,
+    seed: parseSeed(values.seed),
+    motions: values.motion ? values.motion.map(parseMotion) : DEFAULT_MOTIONS,
+    enhancePrompt: !values['no-enhance'],
+    concurrency,
+    dryRun: values['dry-run'],
+    verbose: values.verbose,
+    report: values.report ?? null,
+    apiKey: env.HIGGSFIELD_API_KEY || config.apiKey || '',
+    apiSecret: env.HIGGSFIELD_API_SECRET || config.apiSecret || '',
+    endpoints: endpoint ? endpointsFor(endpoint) : HIGGSFIELD_ENDPOINTS,
+  };
+};
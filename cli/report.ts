@@ -0,0 +1,27 @@
+import { writeFile } from 'node:fs/promises';
+
+export type JobStatus = 'completed' | 'failed' | 'dry-run';
+
+export interface ReportRow {
+  source: string;
+  status: JobStatus;
+  requestId: string | null;
+  seed: number;
+  outputPath: string | null;
+  error: string | null;
+  durationMs: number;
+}
+
+const COLUMNS: (keyof ReportRow)[] = ['source', 'status', 'requestId', 'seed', 'outputPath', 'error', 'durationMs'];
+
+const csvCell = (value: ReportRow[keyof ReportRow]) => {
+  const text = value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: ReportRow[]) =>
+  [COLUMNS.join(','), ...rows.map((row) => COLUMNS.map((column) => csvCell(row[column])).join(','))].join('\n') + '\n';
+
+// CSV for a .csv path, JSON for anything else
+export const writeReport = (path: string, rows: ReportRow[]) =>
+  writeFile(path, path.toLowerCase().endsWith('.csv') ? toCsv(rows) : JSON.stringify(rows, null, 2) + '\n');
@@ -1,4 +1,12 @@
 import js from "@eslint/js";
+import globals from "globals";
 import tseslint from "typescript-eslint";
 
-export default tseslint.config(js.configs.recommended, tseslint.configs.recommended);
+export default tseslint.config(js.configs.recommended, tseslint.configs.recommended, {
+  // The service worker runs outside the page
+  files: ["public/sw.js"],
+  languageOptions: {
+    sourceType: "script",
+    globals: globals.serviceworker,
+  },
+});
\ No newline at end of file
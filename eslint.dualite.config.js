@@ -43,6 +43,23 @@ export default tseslint.config(
     },
   },
 
+  // Node-side code: the local proxy, the CLI and the Vite config
+  {
+    files: ["server/**/*.ts", "cli/**/*.ts", "vite.config.ts"],
+    languageOptions: {
+      globals: globals.node,
+    },
+  },
+
+  // The service worker runs outside the page
+  {
+    files: ["public/sw.js"],
+    languageOptions: {
+      sourceType: "script",
+      globals: globals.serviceworker,
+    },
+  },
+
   // Override for TypeScript files in `src` to enable type-aware linting
   {
     files: ["src/**/*.{ts,tsx}"],
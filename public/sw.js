@@ -0,0 +1,82 @@
+// Caches the app shell so Memory Lane opens without a connection. Kept videos
+// live in their own cache (see src/lib/offlineVideos.ts) and are read by the
+// app directly, so this worker never touches them.
+
+const SHELL_CACHE = 'memory-lane-shell-v2';
+// The worker is registered from the app's base path, so its scope is that base
+const BASE = new URL(self.registration.scope).pathname;
+const SHELL_URLS = [BASE, `${BASE}manifest.webmanifest`, `${BASE}icons/icon-192.png`, `${BASE}icons/icon-512.png`];
+// Written by the build (see vite.config.ts) with the hashed JS and CSS, which
+// the first page load fetched before this worker was there to cache them
+const PRECACHE_MANIFEST = `${BASE}precache-manifest.json`;
+
+const builtAssets = () =>
+  fetch(PRECACHE_MANIFEST, { cache: 'no-store' })
+    .then((response) => (response.ok ? response.json() : []))
+    .catch(() => []);
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    Promise.all([caches.open(SHELL_CACHE), builtAssets()])
+      .then(([cache, assets]) => cache.addAll([...SHELL_URLS, ...assets]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+// Drops shells left by older versions of this worker
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith('memory-lane-shell-') && key !== SHELL_CACHE)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+const putInShell = (request, response) => {
+  // Partial (206) responses to range requests can't be cached
+  if (response.status === 200) {
+    const copy = response.clone();
+    caches.open(SHELL_CACHE).then((cache) => cache.put(request, copy));
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // API calls, the proxy and other origins always go to the network
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) {
+    return;
+  }
+
+  // Pages: fresh when online, the cached shell when not
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => putInShell(BASE, response))
+        .catch(() => caches.match(BASE))
+    );
+    return;
+  }
+
+  // Built assets have hashed names, so a cached copy is never stale
+  if (url.pathname.startsWith(`${BASE}assets/`)) {
+    event.respondWith(
+      caches.match(request).then((cached) => cached || fetch(request).then((response) => putInShell(request, response)))
+    );
+    return;
+  }
+
+  event.respondWith(
+    fetch(request)
+      .then((response) => putInShell(request, response))
+      .catch(() => caches.match(request).then((cached) => cached || Response.error()))
+  );
+});
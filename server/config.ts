@@ -0,0 +1,42 @@
+import type { RateLimitRule } from './rateLimit';
+
+export interface ProxyConfig {
+  apiKey: string;
+  apiSecret: string;
+  // Base of the Higgsfield platform API; point it at server/mockUpstream.ts for local testing
+  upstreamUrl: string;
+  // Path prefix the proxy answers on, must match VITE_PROXY_URL on the client
+  basePath: string;
+  generateLimit: RateLimitRule;
+  statusLimit: RateLimitRule;
+  // Use X-Forwarded-For to identify clients (only behind a trusted reverse proxy)
+  trustProxy: boolean;
+  // Origin allowed to call a standalone proxy from the browser, if any
+  allowedOrigin: string | null;
+}
+
+export const DEFAULT_UPSTREAM_URL = 'https://platform.higgsfield.ai';
+export const DEFAULT_BASE_PATH = '/api/higgsfield';
+
+const toNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// Reads HIGGSFIELD_* / PROXY_* variables. These are deliberately not VITE_
+// prefixed so Vite never inlines them into the client bundle.
+export const loadProxyConfig = (env: Record<string, string | undefined> = process.env): ProxyConfig => {
+  const windowMs = toNumber(env.PROXY_RATE_WINDOW_MS, 60000);
+  return {
+    apiKey: env.HIGGSFIELD_API_KEY ?? '',
+    apiSecret: env.HIGGSFIELD_API_SECRET ?? '',
+    upstreamUrl: (env.HIGGSFIELD_UPSTREAM_URL || DEFAULT_UPSTREAM_URL).replace(/\/$/, ''),
+    basePath: DEFAULT_BASE_PATH,
+    generateLimit: { max: toNumber(env.PROXY_GENERATE_LIMIT, 5), windowMs },
+    statusLimit: { max: toNumber(env.PROXY_STATUS_LIMIT, 120), windowMs },
+    trustProxy: env.PROXY_TRUST_FORWARDED === 'true',
+    allowedOrigin: env.PROXY_ALLOWED_ORIGIN || null,
+  };
+};
+
+export const hasCredentials = (config: ProxyConfig) => Boolean(config.apiKey && config.apiSecret);
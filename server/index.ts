@@ -0,0 +1,18 @@
+import { createServer } from 'node:http';
+import { hasCredentials, loadProxyConfig } from './config';
+import { createProxyHandler } from './proxy';
+
+// Standalone proxy: `yarn proxy`. Point the frontend at it with
+// VITE_PROXY_URL=http://localhost:8787/api/higgsfield and allow that origin
+// with PROXY_ALLOWED_ORIGIN.
+
+const config = loadProxyConfig();
+const port = Number(process.env.PROXY_PORT) || 8787;
+
+if (!hasCredentials(config)) {
+  console.warn('[proxy] HIGGSFIELD_API_KEY / HIGGSFIELD_API_SECRET are not set - requests will be refused.');
+}
+
+createServer(createProxyHandler(config)).listen(port, () => {
+  console.log(`[proxy] Listening on http://localhost:${port}${config.basePath} -> ${config.upstreamUrl}`);
+});
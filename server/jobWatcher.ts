@@ -0,0 +1,172 @@
+import { sleep } from '../src/api/cancellation';
+import { parseRetryAfter } from '../src/api/errors';
+import { createEtaEstimator } from '../src/api/eta';
+import { CANCELLED_REASON, TIMEOUT_MS } from '../src/api/higgsfield';
+import {
+  DEFAULT_MAX_CONSECUTIVE_FAILURES,
+  DEFAULT_POLLING_STRATEGY,
+  type PollingStrategy,
+} from '../src/api/polling';
+import type { FailureEvent, ResultEvent, StatusEvent } from '../src/api/progressStream';
+import { extractVideoUrl, isSuccessStatus, type GenerationResponse } from '../src/api/responses';
+
+// One upstream polling loop per request id, shared by every subscriber.
+// Subscribers get the latest event straight away, then every new one. The
+// loop stops when the job settles or the last subscriber leaves.
+
+export type JobEvent =
+  | { event: 'status'; data: StatusEvent }
+  | { event: 'result'; data: ResultEvent }
+  | { event: 'failure'; data: FailureEvent };
+
+export interface UpstreamResponse {
+  status: number;
+  data: unknown;
+  retryAfter: string | null;
+}
+
+interface JobWatcherOptions {
+  // Throws on network errors, resolves with any HTTP response
+  fetchStatus: (requestId: string, signal: AbortSignal) => Promise<UpstreamResponse>;
+  strategy?: PollingStrategy;
+  maxConsecutiveFailures?: number;
+  timeoutMs?: number;
+  // Settled jobs are remembered this long so late subscribers still get the outcome
+  retainMs?: number;
+}
+
+type Listener = (event: JobEvent) => void;
+
+interface Watch {
+  listeners: Set<Listener>;
+  last: JobEvent | null;
+  controller: AbortController;
+  settled: boolean;
+}
+
+const isTerminal = (event: JobEvent) => event.event !== 'status';
+
+export const createJobWatcher = ({
+  fetchStatus,
+  strategy = DEFAULT_POLLING_STRATEGY,
+  maxConsecutiveFailures = DEFAULT_MAX_CONSECUTIVE_FAILURES,
+  timeoutMs = TIMEOUT_MS,
+  retainMs = 60000,
+}: JobWatcherOptions) => {
+  const watches = new Map<string, Watch>();
+
+  const emit = (watch: Watch, event: JobEvent) => {
+    watch.last = event;
+    // Before notifying, so listeners unsubscribing on the outcome don't abort the watch
+    if (isTerminal(event)) watch.settled = true;
+    watch.listeners.forEach((listener) => listener(event));
+  };
+
+  const toEvent = (response: UpstreamResponse, eta: ReturnType<typeof createEtaEstimator>): JobEvent => {
+    const data = response.data as GenerationResponse;
+    if (isSuccessStatus(data.status) || extractVideoUrl(data) !== null) {
+      eta.complete();
+      return { event: 'result', data: { response: data } };
+    }
+    const status = data.status || 'in_progress';
+    if (status === 'nsfw') return { event: 'failure', data: { kind: 'nsfw' } };
+    if (status === 'failed') return { event: 'failure', data: { kind: 'failed', reason: data.error } };
+    if (status === 'cancelled') {
+      return { event: 'failure', data: { kind: 'failed', reason: data.error ?? CANCELLED_REASON } };
+    }
+    return { event: 'status', data: { status, etaMs: eta.observe(status) } };
+  };
+
+  const run = async (requestId: string, watch: Watch) => {
+    const { signal } = watch.controller;
+    const startedAt = Date.now();
+    const eta = createEtaEstimator();
+    let attempt = 0;
+    let consecutiveFailures = 0;
+    let retryAfterMs: number | null = null;
+
+    while (Date.now() - startedAt < timeoutMs) {
+      // The first check goes out right away so new subscribers see a status quickly
+      if (attempt > 0) await sleep(strategy.nextDelay({ attempt, consecutiveFailures, retryAfterMs }), signal);
+      attempt += 1;
+
+      let response: UpstreamResponse | null = null;
+      try {
+        response = await fetchStatus(requestId, signal);
+      } catch (error) {
+        if (signal.aborted) throw error;
+        console.warn(
+          `[proxy] Status check for ${requestId} failed:`,
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+
+      const { status = 0 } = response ?? {};
+      if (response && status >= 400 && status < 500 && status !== 429) {
+        return emit(watch, {
+          event: 'failure',
+          data: { kind: 'http', status, body: response.data, retryAfter: response.retryAfter },
+        });
+      }
+      if (!response || status >= 400) {
+        consecutiveFailures += 1;
+        if (consecutiveFailures >= maxConsecutiveFailures) {
+          return emit(watch, { event: 'failure', data: { kind: 'connection_lost', failures: consecutiveFailures } });
+        }
+        retryAfterMs = parseRetryAfter(response?.retryAfter);
+        continue;
+      }
+
+      consecutiveFailures = 0;
+      retryAfterMs = null;
+      const event = toEvent(response, eta);
+      emit(watch, event);
+      if (isTerminal(event)) return;
+    }
+
+    emit(watch, { event: 'failure', data: { kind: 'timeout', timeoutMs } });
+  };
+
+  const start = (requestId: string) => {
+    const watch: Watch = { listeners: new Set(), last: null, controller: new AbortController(), settled: false };
+    watches.set(requestId, watch);
+
+    run(requestId, watch)
+      .catch((error) => {
+        if (!watch.controller.signal.aborted) console.error(`[proxy] Watch for ${requestId} crashed:`, error);
+      })
+      .finally(() => {
+        watch.settled = true;
+        watch.listeners.clear();
+        // Keep the outcome around briefly, then forget the job
+        setTimeout(() => {
+          if (watches.get(requestId) === watch) watches.delete(requestId);
+        }, retainMs).unref();
+      });
+    return watch;
+  };
+
+  const subscribe = (requestId: string, listener: Listener) => {
+    let watch = watches.get(requestId);
+    // A crashed watch without an outcome is retried from scratch
+    if (!watch || (watch.settled && !(watch.last && isTerminal(watch.last)))) watch = start(requestId);
+
+    if (watch.last) listener(watch.last);
+    if (watch.settled) return () => {};
+
+    const current = watch;
+    current.listeners.add(listener);
+    return () => {
+      current.listeners.delete(listener);
+      // Nobody is watching any more - stop polling upstream
+      if (current.listeners.size === 0 && !current.settled) {
+        current.controller.abort();
+        watches.delete(requestId);
+      }
+    };
+  };
+
+  return { subscribe };
+};
+
+export type JobWatcher = ReturnType<typeof createJobWatcher>;
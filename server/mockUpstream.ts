@@ -0,0 +1,121 @@
+import { createServer, type ServerResponse } from 'node:http';
+import { createReadStream } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { MOTION_PRESETS } from '../src/lib/motionCatalog';
+
+// Local stand-in for the Higgsfield platform API, for exercising the proxy
+// without real keys or credits: `yarn mock-upstream`, then run the proxy with
+// HIGGSFIELD_UPSTREAM_URL=http://localhost:8788 and the mock credentials below.
+//
+// Jobs go queued -> in_progress -> outcome on a fixed timeline. As with the
+// in-browser mock provider, "#fail" or "#nsfw" in the prompt picks the outcome.
+
+const PORT = Number(process.env.MOCK_UPSTREAM_PORT) || 8788;
+const API_KEY = process.env.MOCK_API_KEY || 'mock-key';
+const API_SECRET = process.env.MOCK_API_SECRET || 'mock-secret';
+const QUEUED_MS = Number(process.env.MOCK_QUEUED_MS) || 3000;
+const RENDER_MS = Number(process.env.MOCK_RENDER_MS) || 6000;
+const SAMPLE_VIDEO = fileURLToPath(new URL('../public/samples/sample-memory.mp4', import.meta.url));
+
+interface MockJob {
+  outcome: 'completed' | 'failed' | 'nsfw';
+  startedAt: number;
+  cancelled: boolean;
+}
+
+const jobs = new Map<string, MockJob>();
+let nextId = 0;
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const statusOf = (job: MockJob) => {
+  if (job.cancelled) return 'cancelled';
+  const elapsed = Date.now() - job.startedAt;
+  if (elapsed < QUEUED_MS) return 'queued';
+  if (elapsed < QUEUED_MS + RENDER_MS) return 'in_progress';
+  return job.outcome;
+};
+
+createServer((req, res) => {
+  const url = new URL(req.url ?? '/', `http://localhost:${PORT}`);
+  console.log(`[mock-upstream] ${req.method} ${url.pathname}`);
+
+  if (url.pathname === '/sample.mp4') {
+    res.writeHead(200, { 'Content-Type': 'video/mp4', 'Access-Control-Allow-Origin': '*' });
+    createReadStream(SAMPLE_VIDEO).pipe(res);
+    return;
+  }
+
+  if (req.headers['hf-api-key'] !== API_KEY || req.headers['hf-secret'] !== API_SECRET) {
+    sendJson(res, 401, { message: 'Invalid API credentials.' });
+    return;
+  }
+
+  if (req.method === 'POST' && url.pathname === '/higgsfield-ai/dop/lite') {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      let payload: { prompt?: string; image_url?: string };
+      try {
+        payload = JSON.parse(body);
+      } catch {
+        sendJson(res, 422, { detail: [{ loc: ['body'], msg: 'Invalid JSON', type: 'value_error' }] });
+        return;
+      }
+      if (!payload.image_url) {
+        sendJson(res, 422, { detail: [{ loc: ['body', 'image_url'], msg: 'Field required', type: 'missing' }] });
+        return;
+      }
+      const prompt = payload.prompt ?? '';
+      const requestId = `upstream-${Date.now()}-${nextId++}`;
+      jobs.set(requestId, {
+        outcome: prompt.includes('#fail') ? 'failed' : prompt.includes('#nsfw') ? 'nsfw' : 'completed',
+        startedAt: Date.now(),
+        cancelled: false,
+      });
+      sendJson(res, 200, {
+        request_id: requestId,
+        status: 'queued',
+        status_url: `http://localhost:${PORT}/requests/${requestId}/status`,
+      });
+    });
+    return;
+  }
+
+  // Every catalog preset exists in the mock library, under a made-up id
+  if (req.method === 'GET' && url.pathname === '/v1/motions') {
+    sendJson(
+      res,
+      200,
+      MOTION_PRESETS.map((preset) => ({ id: preset.motionId ?? `mock-motion-${preset.key}`, name: preset.name }))
+    );
+    return;
+  }
+
+  const match = /^\/requests\/([\w-]+)\/(status|cancel)$/.exec(url.pathname);
+  const job = match && jobs.get(match[1]);
+  if (!match || !job) {
+    sendJson(res, 404, { message: 'Request not found.' });
+    return;
+  }
+
+  const [, requestId, action] = match;
+  if (action === 'cancel' && req.method === 'POST') {
+    job.cancelled = true;
+    sendJson(res, 200, { request_id: requestId, status: 'cancelled' });
+    return;
+  }
+
+  const status = statusOf(job);
+  sendJson(res, 200, {
+    request_id: requestId,
+    status,
+    ...(status === 'completed' && { video: { url: `http://localhost:${PORT}/sample.mp4` } }),
+    ...(status === 'failed' && { error: 'simulated failure' }),
+  });
+}).listen(PORT, () => {
+  console.log(`[mock-upstream] Listening on http://localhost:${PORT} (key "${API_KEY}", secret "${API_SECRET}")`);
+});
@@ -0,0 +1,243 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { hasCredentials, type ProxyConfig } from './config';
+import { createJobWatcher, type JobEvent, type UpstreamResponse } from './jobWatcher';
+import { createRateLimiter } from './rateLimit';
+
+// Forwards generate/status/cancel calls to Higgsfield with credentials that
+// only the server knows. Works as connect-style middleware (Vite dev server)
+// and as a plain request handler (server/index.ts).
+//
+// Routes, relative to config.basePath:
+//   GET  /health                -> { proxy, configured }
+//   POST /generate              -> POST {upstream}/higgsfield-ai/dop/lite
+//   GET  /requests/:id/status   -> GET  {upstream}/requests/:id/status
+//   POST /requests/:id/cancel   -> POST {upstream}/requests/:id/cancel
+//   GET  /requests/:id/events   -> Server-Sent Events, see src/api/progressStream.ts
+//   GET  /motions               -> GET  {upstream}/v1/motions
+
+type Next = (error?: unknown) => void;
+
+const MAX_BODY_BYTES = 15 * 1024 * 1024;
+const REQUEST_ROUTE = /^\/requests\/([\w-]+)\/(status|cancel|events)$/;
+// Comment line sent periodically so idle streams are not closed by intermediaries
+const KEEP_ALIVE_MS = 15000;
+
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req: IncomingMessage) =>
+  new Promise<string>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body too large.'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+const isJsonRequest = (req: IncomingMessage) =>
+  (req.headers['content-type'] ?? '').split(';')[0].trim().toLowerCase() === 'application/json';
+
+export const createProxyHandler = (config: ProxyConfig) => {
+  const generateLimiter = createRateLimiter(config.generateLimit);
+  const statusLimiter = createRateLimiter(config.statusLimit);
+
+  // Browsers always send Origin on cross-site requests. Without this check any
+  // page could spend the stored credentials with a simple form-style POST.
+  const isAllowedOrigin = (req: IncomingMessage) => {
+    const origin = req.headers.origin;
+    if (!origin) return true;
+    if (origin === config.allowedOrigin) return true;
+    try {
+      return new URL(origin).host === req.headers.host;
+    } catch {
+      return false;
+    }
+  };
+
+  const clientId = (req: IncomingMessage) => {
+    const forwarded = req.headers['x-forwarded-for'];
+    if (config.trustProxy && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+    return req.socket.remoteAddress ?? 'unknown';
+  };
+
+  const callUpstream = async (
+    method: 'GET' | 'POST',
+    path: string,
+    body?: string,
+    signal?: AbortSignal
+  ): Promise<UpstreamResponse> => {
+    const upstream = await fetch(`${config.upstreamUrl}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'hf-api-key': config.apiKey,
+        'hf-secret': config.apiSecret,
+      },
+      body,
+      signal,
+    });
+
+    const text = await upstream.text();
+    let data: unknown;
+    try {
+      data = text ? JSON.parse(text) : {};
+    } catch {
+      // Not JSON - pass it through as a message
+      data = { message: text };
+    }
+    // Upstream status URLs point at Higgsfield; clients build proxy ones instead
+    if (data && typeof data === 'object' && 'status_url' in data) {
+      delete (data as { status_url?: string }).status_url;
+    }
+    return { status: upstream.status, data, retryAfter: upstream.headers.get('retry-after') };
+  };
+
+  const forward = async (res: ServerResponse, method: 'GET' | 'POST', path: string, body?: string) => {
+    let upstream: UpstreamResponse;
+    try {
+      upstream = await callUpstream(method, path, body);
+    } catch (error) {
+      console.warn(
+        `[proxy] Upstream unreachable for ${method} ${path}:`,
+        error instanceof Error ? error.message : String(error)
+      );
+      throw new HttpError(502, 'Could not reach the video API.');
+    }
+    const headers: Record<string, string> = upstream.retryAfter ? { 'Retry-After': upstream.retryAfter } : {};
+    sendJson(res, upstream.status, upstream.data, headers);
+  };
+
+  // Shared by every open stream, so each job is polled upstream only once
+  const watcher = createJobWatcher({
+    fetchStatus: (requestId, signal) => callUpstream('GET', `/requests/${requestId}/status`, undefined, signal),
+  });
+
+  const stream = (req: IncomingMessage, res: ServerResponse, requestId: string) => {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+
+    const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), KEEP_ALIVE_MS);
+    let unsubscribe = () => {};
+    const close = () => {
+      clearInterval(keepAlive);
+      unsubscribe();
+    };
+
+    const send = ({ event, data }: JobEvent) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      // Settled - end the stream so the browser does not reconnect
+      if (event !== 'status') {
+        close();
+        res.end();
+      }
+    };
+
+    req.on('close', close);
+    unsubscribe = watcher.subscribe(requestId, send);
+    // The outcome may have been replayed synchronously above
+    if (res.writableEnded) unsubscribe();
+  };
+
+  const route = async (req: IncomingMessage, res: ServerResponse, path: string) => {
+    if (path === '/health' && req.method === 'GET') {
+      sendJson(res, 200, { proxy: true, configured: hasCredentials(config) });
+      return;
+    }
+
+    if (!isAllowedOrigin(req)) throw new HttpError(403, 'Origin not allowed.');
+
+    if (!hasCredentials(config)) {
+      throw new HttpError(503, 'The proxy has no Higgsfield credentials configured.');
+    }
+
+    const isGenerate = path === '/generate' && req.method === 'POST';
+    const isMotions = path === '/motions' && req.method === 'GET';
+    const requestMatch = REQUEST_ROUTE.exec(path);
+    if (!isGenerate && !isMotions && !requestMatch) throw new HttpError(404, 'Not found.');
+    if (isGenerate && !isJsonRequest(req)) throw new HttpError(415, 'Expected an application/json body.');
+
+    // Generations cost money, status checks are cheap - they get separate budgets
+    const limit = (isGenerate ? generateLimiter : statusLimiter).hit(clientId(req));
+    if (!limit.allowed) {
+      sendJson(
+        res,
+        429,
+        { message: 'Too many requests from this client.' },
+        { 'Retry-After': String(Math.ceil(limit.retryAfterMs / 1000)) }
+      );
+      return;
+    }
+
+    if (isGenerate) {
+      await forward(res, 'POST', '/higgsfield-ai/dop/lite', await readBody(req));
+      return;
+    }
+    if (isMotions) {
+      await forward(res, 'GET', '/v1/motions');
+      return;
+    }
+
+    const [, requestId, action] = requestMatch!;
+    if (action === 'events' && req.method === 'GET') {
+      stream(req, res, requestId);
+    } else if (action === 'status' && req.method === 'GET') {
+      await forward(res, 'GET', `/requests/${requestId}/status`);
+    } else if (action === 'cancel' && req.method === 'POST') {
+      await forward(res, 'POST', `/requests/${requestId}/cancel`);
+    } else {
+      throw new HttpError(405, 'Method not allowed.');
+    }
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse, next?: Next) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (!url.pathname.startsWith(config.basePath)) {
+      if (next) next();
+      else sendJson(res, 404, { message: 'Not found.' });
+      return;
+    }
+
+    if (config.allowedOrigin) {
+      res.setHeader('Access-Control-Allow-Origin', config.allowedOrigin);
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+      res.setHeader('Access-Control-Expose-Headers', 'Retry-After');
+    }
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    try {
+      await route(req, res, url.pathname.slice(config.basePath.length) || '/');
+    } catch (error) {
+      const status = error instanceof HttpError ? error.status : 500;
+      if (status === 500) console.error('[proxy] Unexpected error:', error);
+      const message = error instanceof Error ? error.message : String(error);
+      if (!res.headersSent) sendJson(res, status, { message });
+    }
+  };
+};
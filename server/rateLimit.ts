@@ -0,0 +1,47 @@
+// Fixed-window request counter per client. In-memory on purpose: the proxy
+// is a single small process, so there is nothing to share state with.
+
+export interface RateLimitRule {
+  max: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // How long until the client may try again, when not allowed
+  retryAfterMs: number;
+}
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+export const createRateLimiter = ({ max, windowMs }: RateLimitRule) => {
+  const windows = new Map<string, Window>();
+
+  // Forget clients whose window ended so the map does not grow forever
+  const sweep = (now: number) => {
+    windows.forEach((window, client) => {
+      if (window.resetAt <= now) windows.delete(client);
+    });
+  };
+
+  const hit = (client: string, now = Date.now()): RateLimitResult => {
+    if (windows.size > 1000) sweep(now);
+
+    let window = windows.get(client);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(client, window);
+    }
+
+    if (window.count >= max) return { allowed: false, retryAfterMs: window.resetAt - now };
+    window.count += 1;
+    return { allowed: true, retryAfterMs: 0 };
+  };
+
+  return { hit };
+};
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
@@ -0,0 +1,15 @@
+import type { Plugin } from 'vite';
+import type { ProxyConfig } from './config';
+import { createProxyHandler } from './proxy';
+
+// Mounts the proxy on `vite` and `vite preview` so the app and the proxy share
+// an origin and the frontend finds it at the default /api/higgsfield.
+export const higgsfieldProxy = (config: ProxyConfig): Plugin => ({
+  name: 'higgsfield-proxy',
+  configureServer(server) {
+    server.middlewares.use(createProxyHandler(config));
+  },
+  configurePreviewServer(server) {
+    server.middlewares.use(createProxyHandler(config));
+  },
+});
@@ -1,5 +1,5 @@
-import { useState, useCallback, useRef } from "react";
-import { useDropzone } from "react-dropzone";
+import { useState, useCallback, useRef, useEffect, useLayoutEffect } from "react";
+import { useDropzone, type FileRejection } from "react-dropzone";
 import { motion, AnimatePresence } from "framer-motion";
 import {
   Upload,
@@ -12,49 +12,215 @@ import {
   Link as LinkIcon,
   Image as ImageIcon,
   X,
+  StopCircle,
+  Layers,
+  Crop,
+  Check,
+  ClipboardPaste,
+  Bell,
+  BellOff,
+  WifiOff,
 } from "lucide-react";
-import { cn, fileToBase64 } from "./lib/utils";
-import { generateMemoryVideo } from "./api/higgsfield";
+import { cn } from "./lib/utils";
+import { prepareImage, MAX_SOURCE_BYTES } from "./lib/imagePreparation";
+import type { ImageEdit } from "./lib/imageTransform";
+import { buildExportFilename, downloadVideo } from "./lib/videoExport";
+import { buildDeepLink, isShareableUrl, parseDeepLink } from "./lib/deepLink";
+import {
+  probeImageUrl,
+  readClipboardImage,
+  readPastedImage,
+  type ClipboardImage,
+} from "./lib/imageIngestion";
+import {
+  DEFAULT_GENERATION_SETTINGS,
+  toGenerationRequest,
+  withResolvedSeed,
+  createVariations,
+  MAX_VARIATIONS,
+  type GenerationSettings,
+} from "./lib/generationSettings";
+import {
+  savePendingJob,
+  removePendingJob,
+  getResumableJobs,
+  type PendingJob,
+} from "./lib/pendingJobs";
+import { recordGeneration, type HistoryEntry } from "./lib/history";
+import {
+  confirmWithinBudget,
+  recordUsage,
+  type UsageStatus,
+} from "./lib/usageLedger";
+import {
+  disableNotifications,
+  enableNotifications,
+  loadNotificationsEnabled,
+  notificationsSupported,
+  notifyJobOutcome,
+} from "./lib/jobNotifications";
+import { resetTab, showTabOutcome, showTabProgress } from "./lib/tabStatus";
+import { getKeptVideo } from "./lib/offlineVideos";
+import {
+  isCancelledError,
+  extractVideoUrl,
+  type GenerationResponse,
+  type StatusUpdateHandler,
+} from "./api/higgsfield";
+import { describeError, NsfwRejectedError } from "./api/errors";
+import { formatStatus } from "./api/eta";
+import {
+  generateWithProvider,
+  getProvider,
+  type ProviderId,
+} from "./api/providers";
 import { Button } from "./components/ui/Button";
 import { SettingsModal } from "./components/SettingsModal";
+import { AdvancedOptions } from "./components/AdvancedOptions";
+import { BatchView } from "./components/BatchView";
+import { HistoryDrawer } from "./components/HistoryDrawer";
+import { UnlockPrompt } from "./components/UnlockPrompt";
+import { ImageEditor } from "./components/ImageEditor";
+import { ExportPanel } from "./components/ExportPanel";
+import { ComparisonViewer } from "./components/ComparisonViewer";
+import { PendingJobsList } from "./components/PendingJobsList";
+import { VariationControls } from "./components/VariationControls";
+import { VariationsGrid } from "./components/VariationsGrid";
+import { useBatchQueue } from "./hooks/useBatchQueue";
+import type { QueueItem } from "./lib/jobQueue";
 import { useApiKeys } from "./hooks/useApiKeys";
+import { useOnlineStatus } from "./hooks/useOnlineStatus";
+import { useMotionLibrary } from "./hooks/useMotionLibrary";
+import { useProvider } from "./hooks/useProvider";
 
 type InputMethod = "upload" | "url";
+type ViewMode = "single" | "batch";
+
+// What a run was started with - recorded in history once it settles
+interface GenerationContext {
+  providerId: ProviderId;
+  sourceImage: string;
+  settings: GenerationSettings;
+  startedAt: number;
+}
+
+// Read once, so a shared link pre-fills the first render
+const initialLink = parseDeepLink(window.location.search);
 
 function App() {
   const [file, setFile] = useState<File | null>(null);
+  // A shared image only becomes the preview once it has been probed (below)
   const [preview, setPreview] = useState<string | null>(null);
   const [inputMethod, setInputMethod] = useState<InputMethod>("url");
-  const [urlInput, setUrlInput] = useState("");
+  const [urlInput, setUrlInput] = useState(initialLink?.image ?? "");
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [isEditingImage, setIsEditingImage] = useState(false);
+  // The unedited source behind an edited preview, so edits can be revised
+  // instead of stacking on an already cropped image
+  const [imageEdit, setImageEdit] = useState<{
+    source: string;
+    edit: ImageEdit;
+    result: string;
+  } | null>(null);
 
   const [isGenerating, setIsGenerating] = useState(false);
+  // Unfinished jobs from the last session beyond the one resumed on load
+  const [otherPendingJobs, setOtherPendingJobs] = useState<PendingJob[]>([]);
   const [generationStatus, setGenerationStatus] = useState<string>(""); // New state for granular status
-  const [generatedVideo, setGeneratedVideo] = useState<string | null>(null);
+  const [generatedVideo, setGeneratedVideo] = useState<string | null>(
+    initialLink?.video ?? null
+  );
+  // What produced the clip on screen, for file names and share links.
+  // `generatedVideo` may be a local object URL; `videoUrl` is the remote one.
+  const [resultMeta, setResultMeta] = useState<{
+    settings: GenerationSettings;
+    videoUrl?: string;
+  } | null>(() =>
+    initialLink?.video
+      ? { settings: initialLink.settings, videoUrl: initialLink.video }
+      : null
+  );
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [viewMode, setViewMode] = useState<ViewMode>("single");
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  // More than one take generates variations instead of a single clip
+  const [variationCount, setVariationCount] = useState(1);
+  const [varyStrength, setVaryStrength] = useState(false);
+  const [notificationsOn, setNotificationsOn] = useState(loadNotificationsEnabled);
+  const [generationSettings, setGenerationSettings] =
+    useState<GenerationSettings>(
+      initialLink?.settings ?? DEFAULT_GENERATION_SETTINGS
+    );
 
-  const { apiKey, apiSecret, saveKeys, hasKeys } = useApiKeys();
+  const apiKeys = useApiKeys();
+  const { apiKey, apiSecret, saveKeys, hasKeys } = apiKeys;
+  const { providerId, provider, setProviderId, availableProviders } = useProvider();
+  const isOnline = useOnlineStatus();
+  const motionLibraryStatus = useMotionLibrary(provider, { apiKey, apiSecret });
+  // The offline provider works without keys
+  const isConfigured = hasKeys || !provider.capabilities.requiresCredentials;
+  // Ask for the passphrase on load when saved keys exist and are needed
+  const [isUnlockOpen, setIsUnlockOpen] = useState(
+    () => apiKeys.vaultStatus === "locked" && !hasKeys && provider.capabilities.requiresCredentials
+  );
+  const variations = useBatchQueue({
+    apiKey,
+    apiSecret,
+    provider,
+    settings: generationSettings,
+    concurrency: MAX_VARIATIONS,
+  });
+  const variationsActive = variations.items.some(
+    (item) => item.status === "queued" || item.status === "running"
+  );
   const resultRef = useRef<HTMLDivElement>(null);
+  const variationsRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const activeJobIdRef = useRef<string | null>(null);
+  // Set once pending jobs are resumed, or listed after opening a shared link
+  const hasResumedRef = useRef(false);
+  const replayObjectUrlRef = useRef<string | null>(null);
 
   const onDrop = useCallback(async (acceptedFiles: File[]) => {
     const selectedFile = acceptedFiles[0];
     if (selectedFile) {
-      setFile(selectedFile);
-      const base64 = await fileToBase64(selectedFile);
-      setPreview(base64);
-      setGeneratedVideo(null);
+      setIsPreparing(true);
       setError(null);
+      try {
+        // Orient, downscale and re-encode so large phone photos fit the limit
+        const prepared = await prepareImage(selectedFile);
+        console.log(
+          `Prepared upload: ${selectedFile.size} -> ${prepared.bytes} bytes (${prepared.width}x${prepared.height})`
+        );
+        setFile(selectedFile);
+        setPreview(prepared.dataUrl);
+        setGeneratedVideo(null);
+      } catch (err) {
+        console.error(err);
+        setError(
+          err instanceof Error && err.message
+            ? err.message
+            : "Could not process this image. Please try another one."
+        );
+      } finally {
+        setIsPreparing(false);
+      }
     }
   }, []);
 
-  const onDropRejected = useCallback((fileRejections: any[]) => {
+  const onDropRejected = useCallback((fileRejections: FileRejection[]) => {
     const rejection = fileRejections[0];
     if (rejection) {
       const { errors } = rejection;
       if (errors[0]?.code === "file-too-large") {
-        setError("File is too large. Max size is 1MB.");
+        setError("File is too large. Max size is 25MB.");
       } else if (errors[0]?.code === "file-invalid-type") {
-        setError("Invalid file type. Only JPG, PNG, and WebP are allowed.");
+        setError(
+          "Invalid file type. Only JPG, PNG, WebP and HEIC are allowed."
+        );
       } else {
         setError(errors[0]?.message || "File upload failed.");
       }
@@ -68,126 +234,586 @@ function App() {
       "image/jpeg": [],
       "image/png": [],
       "image/webp": [],
+      "image/heic": [".heic"],
+      "image/heif": [".heif"],
     },
-    maxSize: 1024 * 1024, // 1MB
+    // Large files are fine here - they get compressed before upload
+    maxSize: MAX_SOURCE_BYTES,
     maxFiles: 1,
-    disabled: inputMethod === "url" || !!preview,
+    disabled: inputMethod === "url" || !!preview || isPreparing,
   });
 
+  // Resolves share links and checks the image loads before it becomes the preview
+  const loadImageUrl = async (input: string) => {
+    setInputMethod("url");
+    setUrlInput(input);
+    setIsPreparing(true);
+    setError(null);
+    try {
+      const probed = await probeImageUrl(input);
+      console.log(
+        `Probed image URL: ${probed.width}x${probed.height}` +
+          (probed.contentType ? ` ${probed.contentType}` : "") +
+          (probed.source ? ` (direct link from ${probed.source})` : "")
+      );
+      setUrlInput(probed.url);
+      setPreview(probed.url);
+      setFile(null);
+      setGeneratedVideo(null);
+    } catch (err) {
+      console.error(err);
+      setError(
+        err instanceof Error && err.message
+          ? err.message
+          : "Could not load an image from that link."
+      );
+    } finally {
+      setIsPreparing(false);
+    }
+  };
+
   const handleUrlSubmit = () => {
-    if (!urlInput.trim()) return;
-    // Basic validation
-    if (!urlInput.match(/^https?:\/\/.+/)) {
-      setError("Please enter a valid URL starting with http:// or https://");
-      return;
+    if (!urlInput.trim() || isPreparing) return;
+    loadImageUrl(urlInput);
+  };
+
+  const loadClipboardImage = (image: ClipboardImage) => {
+    if (image.kind === "file") onDrop([image.file]);
+    else loadImageUrl(image.url);
+  };
+
+  // The window listeners below outlive a render; they call the latest handler
+  const loadClipboardImageRef = useRef(loadClipboardImage);
+  useLayoutEffect(() => {
+    loadClipboardImageRef.current = loadClipboardImage;
+  });
+
+  const handlePasteButton = async () => {
+    try {
+      const image = await readClipboardImage();
+      if (image) loadClipboardImage(image);
+      else setError("The clipboard doesn't contain an image or an image link.");
+    } catch (err) {
+      console.error(err);
+      setError("Clipboard access was blocked. Press Ctrl+V (or ⌘V) instead.");
     }
-    setPreview(urlInput);
-    setFile(null);
+  };
+
+  // Paste an image or link anywhere, or drag an image in from another tab,
+  // while no photo is loaded yet
+  useEffect(() => {
+    if (preview || isPreparing) return;
+
+    const isEditable = (target: EventTarget | null) =>
+      target instanceof HTMLElement &&
+      (target.isContentEditable || ["INPUT", "TEXTAREA"].includes(target.tagName));
+
+    const handlePaste = (e: ClipboardEvent) => {
+      const image = e.clipboardData && readPastedImage(e.clipboardData);
+      // Let text fields receive plain pastes; images are always taken
+      if (!image || (image.kind === "url" && isEditable(e.target))) return;
+      e.preventDefault();
+      loadClipboardImageRef.current(image);
+    };
+
+    const handleDragOver = (e: DragEvent) => {
+      const types = e.dataTransfer?.types ?? [];
+      if (types.includes("Files") || types.includes("text/uri-list")) {
+        e.preventDefault();
+      }
+    };
+
+    const handleDrop = (e: DragEvent) => {
+      const image = e.dataTransfer && readPastedImage(e.dataTransfer);
+      if (!image) return;
+      // The dropzone already took this file
+      if (image.kind === "file" && e.defaultPrevented) return;
+      e.preventDefault();
+      loadClipboardImageRef.current(image);
+    };
+
+    window.addEventListener("paste", handlePaste);
+    window.addEventListener("dragover", handleDragOver);
+    window.addEventListener("drop", handleDrop);
+    return () => {
+      window.removeEventListener("paste", handlePaste);
+      window.removeEventListener("dragover", handleDragOver);
+      window.removeEventListener("drop", handleDrop);
+    };
+  }, [preview, isPreparing]);
+
+  // Only valid while the preview is still the edited result
+  const activeEdit = imageEdit?.result === preview ? imageEdit : null;
+
+  // Any new preview (upload, history, resume, applied edit) closes the editor
+  useEffect(() => {
+    setIsEditingImage(false);
+  }, [preview]);
+
+  const handleApplyEdit = (source: string, dataUrl: string, edit: ImageEdit) => {
+    setImageEdit({ source, edit, result: dataUrl });
+    setPreview(dataUrl);
     setGeneratedVideo(null);
-    setError(null);
   };
 
   const clearAll = () => {
     setFile(null);
     setPreview(null);
     setGeneratedVideo(null);
+    setResultMeta(null);
+    variations.clearFinished();
+    // Drop a shared link's parameters so a reload starts fresh
+    if (window.location.search) {
+      window.history.replaceState(null, "", window.location.pathname);
+    }
     setError(null);
     setUrlInput("");
     setGenerationStatus("");
   };
 
-  const handleGenerate = async () => {
-    if (!preview) return;
-
-    if (!hasKeys) {
-      setIsSettingsOpen(true);
-      setError("Please configure your API keys to continue.");
-      return;
-    }
-
+  // Shared by fresh generations and jobs resumed after a reload
+  const runGeneration = async (
+    context: GenerationContext,
+    start: (
+      signal: AbortSignal,
+      onStatusUpdate: StatusUpdateHandler
+    ) => Promise<GenerationResponse>
+  ) => {
     setIsGenerating(true);
     setGenerationStatus("Initializing...");
     setError(null);
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     try {
-      const response = await generateMemoryVideo({
-        imageUrl: preview,
-        apiKey,
-        apiSecret,
-        onStatusUpdate: (status) => {
-          // Capitalize first letter for display
-          const displayStatus =
-            status.charAt(0).toUpperCase() + status.slice(1);
-          setGenerationStatus(displayStatus);
-        },
+      const response = await start(controller.signal, (status, progress) => {
+        const label = formatStatus(status, progress);
+        setGenerationStatus(label);
+        showTabProgress(label, progress?.etaMs ?? null);
       });
 
       console.log("Final API Response:", response);
 
-      // Check for output URL in various common fields based on docs
-      // Docs say: response.video.url
-      const videoUrl =
-        response.video?.url ||
-        response.output ||
-        response.url ||
-        (Array.isArray(response.output) ? response.output[0] : null);
+      const videoUrl = extractVideoUrl(response);
+
+      recordRun(context, { videoUrl: videoUrl || undefined });
 
       if (videoUrl) {
         setGeneratedVideo(videoUrl);
+        setResultMeta({ settings: context.settings, videoUrl });
         setTimeout(() => {
           resultRef.current?.scrollIntoView({ behavior: "smooth" });
         }, 100);
+        showTabOutcome("completed");
+        notifyJobOutcome(
+          "completed",
+          "Your photo has come to life. Click to watch it.",
+          scrollToResult
+        );
       } else {
         setError(
           `Video generation completed but no URL found. Status: ${
             response?.status || "unknown"
           }. Check console.`
         );
+        showTabOutcome("failed");
+        notifyJobOutcome("failed", "The job finished without a video.", scrollToResult);
       }
-    } catch (err: any) {
-      console.error(err);
-
-      let errorMessage =
-        "Failed to generate video. Please check your API keys and try again.";
-
-      if (err.message.includes("Timed out")) {
-        errorMessage =
-          "The request timed out. The video is taking longer than 30 minutes to generate.";
-      } else if (err.response?.data?.detail) {
-        if (Array.isArray(err.response.data.detail)) {
-          const firstError = err.response.data.detail[0];
-          const field = firstError.loc ? firstError.loc.join(".") : "field";
-          errorMessage = `API Error: ${firstError.msg} (${field})`;
-        } else {
-          errorMessage = `API Error: ${JSON.stringify(
-            err.response.data.detail
-          )}`;
-        }
-      } else if (err.response?.data?.message) {
-        errorMessage = err.response.data.message;
-      } else if (err.message) {
-        errorMessage = err.message;
+    } catch (err) {
+      // User pressed "Cancel" - nothing went wrong, just reset quietly
+      if (isCancelledError(err)) {
+        trackUsage(context, "cancelled");
+        resetTab();
+        return;
       }
 
-      setError(errorMessage);
+      console.error(err);
+
+      const { message, openSettings } = describeError(err);
+      setError(message);
+      recordRun(context, { error: message });
+      showTabOutcome("failed");
+      notifyJobOutcome(
+        err instanceof NsfwRejectedError ? "nsfw" : "failed",
+        message,
+        scrollToResult
+      );
 
-      if (err.response?.status === 401 || err.response?.status === 403) {
-        setIsSettingsOpen(true);
-      }
+      if (openSettings) setIsSettingsOpen(true);
     } finally {
+      // The job is settled (or cancelled) - no need to resume it later
+      if (activeJobIdRef.current) {
+        removePendingJob(activeJobIdRef.current).catch(console.warn);
+        activeJobIdRef.current = null;
+      }
+      abortControllerRef.current = null;
       setIsGenerating(false);
       setGenerationStatus("");
     }
   };
 
+  // Where a notification click lands
+  const scrollToResult = () => {
+    resultRef.current?.scrollIntoView({ behavior: "smooth" });
+  };
+
+  const toggleNotifications = async () => {
+    if (notificationsOn) {
+      disableNotifications();
+      setNotificationsOn(false);
+      return;
+    }
+    const enabled = await enableNotifications();
+    setNotificationsOn(enabled);
+    if (!enabled) {
+      setError("Notifications are blocked for this site. Allow them in your browser settings.");
+    }
+  };
+
+  const recordRun = (
+    context: GenerationContext,
+    outcome: { videoUrl?: string; error?: string }
+  ) => {
+    recordGeneration({
+      ...context,
+      ...outcome,
+      requestId: activeJobIdRef.current ?? undefined,
+    }).catch((err) => console.warn("Could not save to history:", err));
+    trackUsage(context, outcome.videoUrl ? "completed" : "failed", outcome.error);
+  };
+
+  const trackUsage = (
+    context: GenerationContext,
+    status: UsageStatus,
+    error?: string
+  ) => {
+    recordUsage({
+      ...context,
+      status,
+      error,
+      requestId: activeJobIdRef.current ?? undefined,
+    }).catch((err) => console.warn("Could not update the usage ledger:", err));
+  };
+
+  // Warns or blocks when the jobs would push spending past the budget cap
+  const handleGenerate = async (rerun?: {
+    sourceImage: string;
+    settings: GenerationSettings;
+  }) => {
+    const source = rerun?.sourceImage ?? preview;
+    if (!source) return;
+
+    if (!isConfigured) {
+      setIsSettingsOpen(true);
+      setError("Please configure your API keys to continue.");
+      return;
+    }
+
+    if (!rerun && variationCount > 1) {
+      await generateVariations(source);
+      return;
+    }
+
+    const sourceImage = source;
+    // Resolve the seed once so the persisted job records what was actually sent
+    const settings = withResolvedSeed(rerun?.settings ?? generationSettings);
+    if (!(await confirmWithinBudget(providerId, [settings], setError))) return;
+
+    const context = {
+      providerId,
+      sourceImage,
+      settings,
+      startedAt: Date.now(),
+    };
+    await runGeneration(context, (signal, onStatusUpdate) =>
+      generateWithProvider(provider, {
+        request: toGenerationRequest(sourceImage, settings),
+        credentials: { apiKey, apiSecret },
+        signal,
+        onStatusUpdate,
+        onJobCreated: (job) => {
+          activeJobIdRef.current = job.requestId;
+          savePendingJob({ ...job, providerId, sourceImage, settings }).catch(
+            console.warn
+          );
+          trackUsage(context, "submitted");
+        },
+      })
+    );
+  };
+
+  // Several takes of the same photo with different seeds, run side by side
+  const generateVariations = async (sourceImage: string) => {
+    const takes = createVariations(generationSettings, variationCount, varyStrength);
+    if (!(await confirmWithinBudget(providerId, takes, setError))) return;
+
+    setError(null);
+    variations.clearFinished();
+    variations.add(
+      takes.map((settings, index) => ({
+        label: `Take ${index + 1}`,
+        sourceImage,
+        settings,
+      }))
+    );
+    setTimeout(() => {
+      variationsRef.current?.scrollIntoView({ behavior: "smooth" });
+    }, 100);
+  };
+
+  // A retried take is charged again, so it goes through the budget too
+  const retryVariation = async (id: string) => {
+    const item = variations.items.find((take) => take.id === id);
+    if (!item) return;
+    const takeSettings = item.settings ?? generationSettings;
+    if (!(await confirmWithinBudget(providerId, [takeSettings], setError))) return;
+    variations.retry(id);
+  };
+
+  const promoteVariation = (item: QueueItem) => {
+    if (!item.videoUrl) return;
+    const settings = item.settings ?? generationSettings;
+    setGeneratedVideo(item.videoUrl);
+    setResultMeta({ settings, videoUrl: item.videoUrl });
+    // Running again reproduces the chosen take
+    setGenerationSettings(settings);
+    setTimeout(() => {
+      resultRef.current?.scrollIntoView({ behavior: "smooth" });
+    }, 100);
+  };
+
+  const resumeJob = async (job: PendingJob) => {
+    console.log(`Resuming job ${job.requestId} from a previous session`);
+    setPreview(job.sourceImage);
+    setGeneratedVideo(null);
+    setGenerationSettings(job.settings);
+    activeJobIdRef.current = job.requestId;
+
+    const jobProvider = getProvider(job.providerId);
+    const context = {
+      providerId: jobProvider.id,
+      sourceImage: job.sourceImage,
+      settings: job.settings,
+      startedAt: job.startedAt,
+    };
+    await runGeneration(context, (signal, onStatusUpdate) =>
+      jobProvider.poll(job, {
+        credentials: { apiKey, apiSecret },
+        signal,
+        onStatusUpdate,
+      })
+    );
+  };
+
+  // Picked from the list of other unfinished jobs
+  const resumeOtherJob = (job: PendingJob) => {
+    if (getProvider(job.providerId).capabilities.requiresCredentials && !hasKeys) {
+      setIsSettingsOpen(true);
+      return;
+    }
+    setOtherPendingJobs((jobs) => jobs.filter((other) => other.requestId !== job.requestId));
+    resumeJob(job);
+  };
+
+  const discardPendingJob = (job: PendingJob) => {
+    setOtherPendingJobs((jobs) => jobs.filter((other) => other.requestId !== job.requestId));
+    removePendingJob(job.requestId).catch(console.warn);
+  };
+
+  // The effect below should only run again when keys become available
+  const resumeJobRef = useRef(resumeJob);
+  useLayoutEffect(() => {
+    resumeJobRef.current = resumeJob;
+  });
+
+  // Pick up a generation that was still running when the page was closed.
+  // The newest resumes right away; the rest are listed to resume one by one.
+  useEffect(() => {
+    if (hasResumedRef.current) return;
+
+    getResumableJobs()
+      .then((jobs) => {
+        if (hasResumedRef.current) return;
+        // A shared link decides what is on screen, so all of them wait in the list
+        if (initialLink) {
+          hasResumedRef.current = true;
+          setOtherPendingJobs(jobs);
+          return;
+        }
+        const [job, ...others] = jobs;
+        if (!job) return;
+        setOtherPendingJobs(others);
+        const needsKeys = getProvider(job.providerId).capabilities
+          .requiresCredentials;
+        if (needsKeys && !hasKeys) {
+          setPreview(job.sourceImage);
+          setError(
+            "A memory was still being generated when the page closed. Enter your API keys to resume it."
+          );
+          // Unlocking saved keys also resumes it
+          if (!isUnlockOpen) setIsSettingsOpen(true);
+          return;
+        }
+        hasResumedRef.current = true;
+        resumeJobRef.current(job);
+      })
+      .catch((err) => console.warn("Could not load pending jobs:", err));
+  }, [hasKeys, isUnlockOpen]);
+
+  // A shared image gets the same checks as a pasted link. Not loadImageUrl,
+  // which would also clear a shared clip.
+  useEffect(() => {
+    const image = initialLink?.image;
+    if (!image) return;
+    let cancelled = false;
+    setIsPreparing(true);
+    probeImageUrl(image)
+      .then((probed) => {
+        if (cancelled) return;
+        setUrlInput(probed.url);
+        setPreview(probed.url);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error(err);
+        setError(
+          err instanceof Error && err.message
+            ? err.message
+            : "Could not load the shared image."
+        );
+      })
+      .finally(() => {
+        if (!cancelled) setIsPreparing(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // A link to a finished clip opens straight on the result
+  useEffect(() => {
+    if (!initialLink?.video) return;
+    const timer = setTimeout(() => {
+      resultRef.current?.scrollIntoView({ behavior: "smooth" });
+    }, 300);
+    return () => clearTimeout(timer);
+  }, []);
+
+  const handleDownload = async () => {
+    if (!generatedVideo) return;
+    setIsDownloading(true);
+    try {
+      await downloadVideo(
+        generatedVideo,
+        buildExportFilename(resultMeta?.settings ?? generationSettings, "mp4")
+      );
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    const link = buildDeepLink({
+      image: preview,
+      video: resultMeta?.videoUrl,
+      settings: resultMeta?.settings ?? generationSettings,
+    });
+    try {
+      await navigator.clipboard.writeText(link);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (err) {
+      console.error(err);
+      window.prompt("Copy this link:", link);
+    }
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const showInSingleView = (entry: HistoryEntry) => {
+    setIsHistoryOpen(false);
+    setViewMode("single");
+    setPreview(entry.sourceImage);
+    setGenerationSettings(entry.settings);
+    setError(null);
+  };
+
+  const handleReplay = async (entry: HistoryEntry) => {
+    showInSingleView(entry);
+
+    // Prefer the saved copy so old clips still play offline or once the
+    // remote URL expires
+    if (replayObjectUrlRef.current) {
+      URL.revokeObjectURL(replayObjectUrlRef.current);
+      replayObjectUrlRef.current = null;
+    }
+    const saved =
+      entry.keptOffline && entry.videoUrl
+        ? await getKeptVideo(entry.videoUrl).catch(() => undefined)
+        : entry.videoBlob;
+    if (saved) {
+      replayObjectUrlRef.current = URL.createObjectURL(saved);
+    }
+    setGeneratedVideo(replayObjectUrlRef.current ?? entry.videoUrl ?? null);
+    setResultMeta({ settings: entry.settings, videoUrl: entry.videoUrl });
+    setTimeout(() => {
+      resultRef.current?.scrollIntoView({ behavior: "smooth" });
+    }, 100);
+  };
+
+  const handleRerun = (entry: HistoryEntry) => {
+    showInSingleView(entry);
+    setGeneratedVideo(null);
+    handleGenerate({ sourceImage: entry.sourceImage, settings: entry.settings });
+  };
+
   return (
     <div className="min-h-screen bg-[#FDF6E3] text-[#4A4A4A] font-sans selection:bg-[#D4C5A9] flex flex-col">
       <SettingsModal
         isOpen={isSettingsOpen}
         onClose={() => setIsSettingsOpen(false)}
-        onSave={saveKeys}
+        onSave={async (key, secret, nextProviderId, remember) => {
+          if (remember) {
+            await apiKeys.saveProfile(key, secret, remember);
+          } else {
+            saveKeys(key, secret);
+          }
+          setProviderId(nextProviderId);
+        }}
+        initialProviderId={providerId}
+        providers={availableProviders}
         initialKey={apiKey}
         initialSecret={apiSecret}
+        vaultStatus={apiKeys.vaultStatus}
+        profiles={apiKeys.profiles}
+        activeProfileId={apiKeys.activeProfileId}
+        onSelectProfile={apiKeys.selectProfile}
+        onDeleteProfile={apiKeys.deleteProfile}
+        onForgetSavedKeys={apiKeys.forgetSavedKeys}
+        onRequestUnlock={() => setIsUnlockOpen(true)}
+      />
+      <UnlockPrompt
+        isOpen={isUnlockOpen}
+        onUnlock={async (passphrase) => {
+          await apiKeys.unlock(passphrase);
+          setIsUnlockOpen(false);
+        }}
+        onSkip={() => setIsUnlockOpen(false)}
+        onForget={() => {
+          apiKeys.forgetSavedKeys();
+          setIsUnlockOpen(false);
+        }}
+      />
+      <HistoryDrawer
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        onReplay={handleReplay}
+        onRerun={handleRerun}
+        disableRerun={isGenerating || !isOnline}
+        isOnline={isOnline}
       />
 
       {/* Header */}
@@ -200,6 +826,34 @@ function App() {
             </h1>
           </div>
           <div className="flex items-center gap-3">
+            {notificationsSupported() && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={toggleNotifications}
+                className="text-[#8B5E3C] hover:text-[#6F4B30] hover:bg-[#F4EBD9]"
+                title={
+                  notificationsOn
+                    ? "Notifications on - click to turn off"
+                    : "Notify me when a memory is ready"
+                }
+              >
+                {notificationsOn ? (
+                  <Bell className="w-4 h-4" />
+                ) : (
+                  <BellOff className="w-4 h-4" />
+                )}
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsHistoryOpen(true)}
+              className="text-[#8B5E3C] hover:text-[#6F4B30] hover:bg-[#F4EBD9]"
+            >
+              <History className="w-4 h-4 mr-2" />
+              History
+            </Button>
             <Button
               variant="ghost"
               size="sm"
@@ -207,7 +861,11 @@ function App() {
               className="text-[#8B5E3C] hover:text-[#6F4B30] hover:bg-[#F4EBD9]"
             >
               <Settings className="w-4 h-4 mr-2" />
-              {hasKeys ? "Configured" : "Setup API"}
+              {!provider.capabilities.requiresCredentials
+                ? provider.name
+                : hasKeys
+                ? "Configured"
+                : "Setup API"}
             </Button>
             <div className="hidden sm:block text-xs font-medium text-[#8B5E3C] bg-[#F4EBD9] px-3 py-1 rounded-full border border-[#E6DCC8]">
               Powered by Higgsfield AI
@@ -216,6 +874,13 @@ function App() {
         </div>
       </header>
 
+      {!isOnline && (
+        <div className="bg-[#F4EBD9] border-b border-[#E6DCC8] px-4 py-2 text-sm text-[#6F4B30] flex items-center justify-center gap-2">
+          <WifiOff className="w-4 h-4" />
+          You're offline. Saved memories still play - reliving new ones needs a connection.
+        </div>
+      )}
+
       {/* Main Content - Centered */}
       <main className="flex-grow flex flex-col justify-center w-full max-w-3xl mx-auto px-4 py-12 space-y-12">
         {/* Intro */}
@@ -238,221 +903,419 @@ function App() {
           </motion.p>
         </section>
 
-        {/* Input Section */}
-        <section className="space-y-6">
-          {/* Input Method Tabs */}
-          {!preview && (
-            <div className="flex justify-center mb-4">
-              <div className="bg-[#F4EBD9] p-1 rounded-lg border border-[#E6DCC8] flex gap-1">
-                <button
-                  onClick={() => setInputMethod("url")}
-                  className={cn(
-                    "px-4 py-2 rounded-md text-sm font-medium transition-all flex items-center gap-2",
-                    inputMethod === "url"
-                      ? "bg-white text-[#8B5E3C] shadow-sm"
-                      : "text-[#8B8B8B] hover:text-[#6F4B30]"
-                  )}
-                >
-                  <LinkIcon className="w-4 h-4" />
-                  Image URL
-                </button>
-                <button
-                  disabled
-                  className={cn(
-                    "px-4 py-2 rounded-md text-sm font-medium transition-all flex items-center gap-2 opacity-50 cursor-not-allowed",
-                    inputMethod === "upload"
-                      ? "bg-white text-[#8B5E3C] shadow-sm"
-                      : "text-[#8B8B8B]"
-                  )}
-                >
-                  <Upload className="w-4 h-4" />
-                  Upload File
-                  <span className="ml-1 text-[10px] bg-[#E6DCC8] text-[#8B5E3C] px-1.5 py-0.5 rounded-full">
-                    Soon
-                  </span>
-                </button>
-              </div>
-            </div>
-          )}
-
-          <div className="relative">
-            <AnimatePresence mode="wait">
-              {!preview ? (
-                inputMethod === "upload" ? (
-                  <motion.div
-                    key="upload"
-                    initial={{ opacity: 0, y: 10 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    exit={{ opacity: 0, y: -10 }}
-                    {...getRootProps()}
-                    className={cn(
-                      "relative group border-2 border-dashed rounded-xl p-12 transition-all duration-300 ease-in-out cursor-pointer overflow-hidden text-center",
-                      isDragActive
-                        ? "border-[#8B5E3C] bg-[#F4EBD9]"
-                        : "border-[#D4C5A9] hover:border-[#8B5E3C] hover:bg-[#F9F3E5]"
-                    )}
-                  >
-                    <input {...getInputProps()} />
-                    <div className="w-16 h-16 bg-[#F4EBD9] rounded-full flex items-center justify-center mb-4 mx-auto group-hover:scale-110 transition-transform duration-300">
-                      <ImageIcon className="w-8 h-8 text-[#8B5E3C]" />
-                    </div>
-                    <h3 className="text-lg font-medium text-[#2C2C2C] mb-1">
-                      Upload an image
-                    </h3>
-                    <p className="text-sm text-[#8B8B8B]">
-                      Drag & drop or click to select (JPG, PNG, WebP) - Max 1MB
-                    </p>
-                  </motion.div>
-                ) : (
-                  <motion.div
-                    key="url"
-                    initial={{ opacity: 0, y: 10 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    exit={{ opacity: 0, y: -10 }}
-                    className="border-2 border-dashed border-[#D4C5A9] rounded-xl p-12 bg-[#FDF6E3] flex flex-col items-center gap-4"
-                  >
-                    <div className="w-full max-w-md space-y-3">
-                      <label className="block text-sm font-medium text-[#4A4A4A] text-center">
-                        Paste Image URL
-                      </label>
-                      <div className="flex gap-2">
-                        <input
-                          type="text"
-                          value={urlInput}
-                          onChange={(e) => setUrlInput(e.target.value)}
-                          placeholder="https://example.com/photo.jpg"
-                          className="flex-1 px-4 py-2 bg-white border border-[#D4C5A9] rounded-md focus:outline-none focus:ring-2 focus:ring-[#8B5E3C]/20 focus:border-[#8B5E3C] transition-all"
-                          onKeyDown={(e) =>
-                            e.key === "Enter" && handleUrlSubmit()
-                          }
-                        />
-                        <Button onClick={handleUrlSubmit} variant="vintage">
-                          Load
-                        </Button>
-                      </div>
-                      <p className="text-xs text-[#8B8B8B] text-center">
-                        Ensure the URL is publicly accessible.
-                      </p>
-                    </div>
-                  </motion.div>
-                )
-              ) : (
-                <motion.div
-                  key="preview-image"
-                  initial={{ opacity: 0 }}
-                  animate={{ opacity: 1 }}
-                  className="relative flex flex-col items-center"
-                >
-                  <div className="relative group">
-                    <div className="relative rounded-lg overflow-hidden shadow-md border-[6px] border-white bg-white rotate-1 max-h-[400px]">
-                      <img
-                        src={preview}
-                        alt="Preview"
-                        className="max-w-full h-auto object-contain max-h-[400px]"
-                        onError={() =>
-                          setError(
-                            "Could not load image from URL. Please check the link."
-                          )
-                        }
-                      />
-                    </div>
+        {/* Mode Switch */}
+        <div className="flex justify-center -mt-4">
+          <div className="bg-[#F4EBD9] p-1 rounded-lg border border-[#E6DCC8] flex gap-1">
+            {(
+              [
+                { mode: "single", label: "Single Photo", icon: ImageIcon },
+                { mode: "batch", label: "Batch", icon: Layers },
+              ] as const
+            ).map(({ mode, label, icon: Icon }) => (
+              <button
+                key={mode}
+                onClick={() => setViewMode(mode)}
+                disabled={isGenerating}
+                className={cn(
+                  "px-4 py-2 rounded-md text-sm font-medium transition-all flex items-center gap-2 disabled:opacity-50",
+                  viewMode === mode
+                    ? "bg-white text-[#8B5E3C] shadow-sm"
+                    : "text-[#8B8B8B] hover:text-[#6F4B30]"
+                )}
+              >
+                <Icon className="w-4 h-4" />
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Kept mounted while hidden so running batch jobs survive a mode switch */}
+        <section
+          className={cn("space-y-6", viewMode !== "batch" && "hidden")}
+        >
+          <AdvancedOptions
+            settings={generationSettings}
+            onChange={setGenerationSettings}
+            motionLibraryStatus={motionLibraryStatus}
+          />
+          <BatchView
+            apiKey={apiKey}
+            apiSecret={apiSecret}
+            provider={provider}
+            canGenerate={isConfigured}
+            settings={generationSettings}
+            onRequireKeys={() => setIsSettingsOpen(true)}
+          />
+        </section>
+
+        {viewMode === "single" && (
+          <>
+            {/* Input Section */}
+            <section className="space-y-6">
+              {otherPendingJobs.length > 0 && (
+                <PendingJobsList
+                  jobs={otherPendingJobs}
+                  besidesResumed={!initialLink}
+                  disabled={isGenerating || !isOnline}
+                  onResume={resumeOtherJob}
+                  onDiscard={discardPendingJob}
+                />
+              )}
+
+              {/* Input Method Tabs */}
+              {!preview && (
+                <div className="flex justify-center mb-4">
+                  <div className="bg-[#F4EBD9] p-1 rounded-lg border border-[#E6DCC8] flex gap-1">
                     <button
-                      onClick={clearAll}
-                      className="absolute -top-4 -right-4 bg-white text-red-500 rounded-full p-2 shadow-md hover:bg-red-50 transition-colors border border-red-100"
-                      title="Remove image"
+                      onClick={() => setInputMethod("url")}
+                      className={cn(
+                        "px-4 py-2 rounded-md text-sm font-medium transition-all flex items-center gap-2",
+                        inputMethod === "url"
+                          ? "bg-white text-[#8B5E3C] shadow-sm"
+                          : "text-[#8B8B8B] hover:text-[#6F4B30]"
+                      )}
                     >
-                      <X className="w-5 h-5" />
+                      <LinkIcon className="w-4 h-4" />
+                      Image URL
+                    </button>
+                    <button
+                      onClick={() => setInputMethod("upload")}
+                      className={cn(
+                        "px-4 py-2 rounded-md text-sm font-medium transition-all flex items-center gap-2",
+                        inputMethod === "upload"
+                          ? "bg-white text-[#8B5E3C] shadow-sm"
+                          : "text-[#8B8B8B] hover:text-[#6F4B30]"
+                      )}
+                    >
+                      <Upload className="w-4 h-4" />
+                      Upload File
                     </button>
                   </div>
-                  <p className="mt-6 text-sm text-[#8B8B8B] italic">
-                    Ready to relive this memory?
-                  </p>
-                </motion.div>
+                </div>
               )}
-            </AnimatePresence>
-          </div>
 
-          <div className="flex justify-center">
-            <Button
-              size="lg"
-              variant="vintage"
-              disabled={!preview || isGenerating}
-              onClick={(e) => {
-                e.stopPropagation();
-                handleGenerate();
-              }}
-              className="w-full sm:w-auto min-w-[200px] text-base shadow-lg hover:shadow-xl transition-all"
-            >
-              {isGenerating ? (
-                <>
-                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                  {generationStatus
-                    ? `Dreaming... (${generationStatus})`
-                    : "Dreaming..."}
-                </>
-              ) : (
-                <>
-                  <Sparkles className="w-4 h-4 mr-2" />
-                  Relive Memory
-                </>
+              <div className="relative">
+                <AnimatePresence mode="wait">
+                  {!preview ? (
+                    inputMethod === "upload" ? (
+                      <motion.div
+                        key="upload"
+                        initial={{ opacity: 0, y: 10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: -10 }}
+                      >
+                        {/* Dropzone props go on a plain div - motion.div has its own onDrag types */}
+                        <div
+                          {...getRootProps()}
+                          className={cn(
+                            "relative group border-2 border-dashed rounded-xl p-12 transition-all duration-300 ease-in-out cursor-pointer overflow-hidden text-center",
+                            isDragActive
+                              ? "border-[#8B5E3C] bg-[#F4EBD9]"
+                              : "border-[#D4C5A9] hover:border-[#8B5E3C] hover:bg-[#F9F3E5]",
+                            isPreparing && "cursor-wait opacity-75"
+                          )}
+                        >
+                          <input {...getInputProps()} />
+                          <div className="w-16 h-16 bg-[#F4EBD9] rounded-full flex items-center justify-center mb-4 mx-auto group-hover:scale-110 transition-transform duration-300">
+                            {isPreparing ? (
+                              <Loader2 className="w-8 h-8 text-[#8B5E3C] animate-spin" />
+                            ) : (
+                              <ImageIcon className="w-8 h-8 text-[#8B5E3C]" />
+                            )}
+                          </div>
+                          <h3 className="text-lg font-medium text-[#2C2C2C] mb-1">
+                            {isPreparing ? "Preparing your photo..." : "Upload an image"}
+                          </h3>
+                          <p className="text-sm text-[#8B8B8B]">
+                            Drag & drop or click to select (JPG, PNG, WebP, HEIC) -
+                            large photos are resized automatically
+                          </p>
+                        </div>
+                      </motion.div>
+                    ) : (
+                      <motion.div
+                        key="url"
+                        initial={{ opacity: 0, y: 10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: -10 }}
+                        className="border-2 border-dashed border-[#D4C5A9] rounded-xl p-12 bg-[#FDF6E3] flex flex-col items-center gap-4"
+                      >
+                        <div className="w-full max-w-md space-y-3">
+                          <label className="block text-sm font-medium text-[#4A4A4A] text-center">
+                            Paste Image URL
+                          </label>
+                          <div className="flex gap-2">
+                            <input
+                              type="text"
+                              value={urlInput}
+                              onChange={(e) => setUrlInput(e.target.value)}
+                              placeholder="https://example.com/photo.jpg"
+                              className="flex-1 px-4 py-2 bg-white border border-[#D4C5A9] rounded-md focus:outline-none focus:ring-2 focus:ring-[#8B5E3C]/20 focus:border-[#8B5E3C] transition-all"
+                              onKeyDown={(e) =>
+                                e.key === "Enter" && handleUrlSubmit()
+                              }
+                            />
+                            <Button
+                              onClick={handleUrlSubmit}
+                              variant="vintage"
+                              disabled={isPreparing}
+                            >
+                              {isPreparing ? (
+                                <Loader2 className="w-4 h-4 animate-spin" />
+                              ) : (
+                                "Load"
+                              )}
+                            </Button>
+                            <Button
+                              onClick={handlePasteButton}
+                              variant="outline"
+                              disabled={isPreparing}
+                              title="Paste an image or link from the clipboard"
+                            >
+                              <ClipboardPaste className="w-4 h-4" />
+                            </Button>
+                          </div>
+                          <p className="text-xs text-[#8B8B8B] text-center">
+                            {isPreparing
+                              ? "Checking the link..."
+                              : "Ensure the URL is publicly accessible. Google Drive, Dropbox and OneDrive share links work too - or paste or drag an image straight onto the page."}
+                          </p>
+                        </div>
+                      </motion.div>
+                    )
+                  ) : isEditingImage ? (
+                    <motion.div
+                      key="image-editor"
+                      initial={{ opacity: 0 }}
+                      animate={{ opacity: 1 }}
+                      className="w-full"
+                    >
+                      <ImageEditor
+                        src={activeEdit?.source ?? preview}
+                        initialEdit={activeEdit?.edit}
+                        onApply={(dataUrl, edit) =>
+                          handleApplyEdit(activeEdit?.source ?? preview, dataUrl, edit)
+                        }
+                        onCancel={() => setIsEditingImage(false)}
+                      />
+                    </motion.div>
+                  ) : (
+                    <motion.div
+                      key="preview-image"
+                      initial={{ opacity: 0 }}
+                      animate={{ opacity: 1 }}
+                      className="relative flex flex-col items-center"
+                    >
+                      <div className="relative group">
+                        <div className="relative rounded-lg overflow-hidden shadow-md border-[6px] border-white bg-white rotate-1 max-h-[400px]">
+                          <img
+                            src={preview}
+                            alt="Preview"
+                            className="max-w-full h-auto object-contain max-h-[400px]"
+                            onError={() =>
+                              setError(
+                                "Could not load image from URL. Please check the link."
+                              )
+                            }
+                          />
+                        </div>
+                        <button
+                          onClick={clearAll}
+                          className="absolute -top-4 -right-4 bg-white text-red-500 rounded-full p-2 shadow-md hover:bg-red-50 transition-colors border border-red-100"
+                          title="Remove image"
+                        >
+                          <X className="w-5 h-5" />
+                        </button>
+                        <button
+                          onClick={() => setIsEditingImage(true)}
+                          disabled={isGenerating}
+                          className="absolute -bottom-4 -right-4 bg-white text-[#8B5E3C] rounded-full p-2 shadow-md hover:bg-[#F4EBD9] transition-colors border border-[#E6DCC8] disabled:opacity-50"
+                          title="Crop, rotate and straighten"
+                        >
+                          <Crop className="w-5 h-5" />
+                        </button>
+                      </div>
+                      <p className="mt-6 text-sm text-[#8B8B8B] italic">
+                        Ready to relive this memory?
+                      </p>
+                    </motion.div>
+                  )}
+                </AnimatePresence>
+              </div>
+
+              {preview && (
+                <AdvancedOptions
+                  settings={generationSettings}
+                  onChange={setGenerationSettings}
+                  motionLibraryStatus={motionLibraryStatus}
+                  previewImage={preview}
+                  disabled={isGenerating}
+                />
               )}
-            </Button>
-          </div>
 
-          {error && (
-            <motion.div
-              initial={{ opacity: 0, y: 10 }}
-              animate={{ opacity: 1, y: 0 }}
-              className="p-4 bg-red-50 text-red-600 rounded-lg text-sm text-center border border-red-100 flex items-center justify-center gap-2"
-            >
-              <AlertCircle className="w-4 h-4" />
-              {error}
-            </motion.div>
-          )}
-        </section>
+              {preview && (
+                <VariationControls
+                  count={variationCount}
+                  onCountChange={setVariationCount}
+                  varyStrength={varyStrength}
+                  onVaryStrengthChange={setVaryStrength}
+                  disabled={isGenerating || variationsActive}
+                />
+              )}
 
-        {/* Result Section */}
-        <AnimatePresence>
-          {generatedVideo && (
-            <motion.section
-              ref={resultRef}
-              initial={{ opacity: 0, scale: 0.95 }}
-              animate={{ opacity: 1, scale: 1 }}
-              transition={{ duration: 0.5 }}
-              className="pt-8 border-t border-[#E6DCC8]"
-            >
-              <div className="text-center mb-8">
-                <h3 className="text-2xl font-serif text-[#2C2C2C] mb-2">
-                  Your Living Memory
-                </h3>
-                <p className="text-[#6B6B6B]">The moment, captured in time.</p>
+              <div className="flex justify-center gap-3">
+                <Button
+                  size="lg"
+                  variant="vintage"
+                  disabled={
+                    !preview ||
+                    isGenerating ||
+                    isEditingImage ||
+                    variationsActive ||
+                    !isOnline
+                  }
+                  title={isOnline ? undefined : "Reliving a memory needs a connection"}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleGenerate();
+                  }}
+                  className="w-full sm:w-auto min-w-[200px] text-base shadow-lg hover:shadow-xl transition-all"
+                >
+                  {isGenerating ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      {generationStatus
+                        ? `Dreaming... (${generationStatus})`
+                        : "Dreaming..."}
+                    </>
+                  ) : variationsActive ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Dreaming up variations...
+                    </>
+                  ) : (
+                    <>
+                      <Sparkles className="w-4 h-4 mr-2" />
+                      {variationCount > 1
+                        ? `Relive Memory (${variationCount} takes)`
+                        : "Relive Memory"}
+                    </>
+                  )}
+                </Button>
+                {isGenerating && (
+                  <Button
+                    size="lg"
+                    variant="outline"
+                    onClick={handleCancel}
+                    className="border-[#D4C5A9] text-[#8B5E3C] hover:bg-[#F4EBD9]"
+                  >
+                    <StopCircle className="w-4 h-4 mr-2" />
+                    Cancel
+                  </Button>
+                )}
               </div>
 
-              <div className="relative max-w-2xl mx-auto bg-black rounded-xl overflow-hidden shadow-2xl border-[8px] border-white">
-                <video
-                  src={generatedVideo}
-                  controls
-                  autoPlay
-                  loop
-                  className="w-full h-auto"
+              {error && (
+                <motion.div
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="p-4 bg-red-50 text-red-600 rounded-lg text-sm text-center border border-red-100 flex items-center justify-center gap-2"
+                >
+                  <AlertCircle className="w-4 h-4" />
+                  {error}
+                </motion.div>
+              )}
+            </section>
+
+            {variations.items.length > 0 && (
+              <div ref={variationsRef}>
+                <VariationsGrid
+                  items={variations.items}
+                  promotedUrl={generatedVideo}
+                  onPromote={promoteVariation}
+                  onRetry={retryVariation}
+                  onRemove={variations.remove}
+                  onClear={variations.clearFinished}
                 />
               </div>
+            )}
 
-              <div className="mt-6 flex justify-center gap-4">
-                <Button
-                  variant="outline"
-                  onClick={() => window.open(generatedVideo, "_blank")}
+            {/* Result Section */}
+            <AnimatePresence>
+              {generatedVideo && (
+                <motion.section
+                  ref={resultRef}
+                  initial={{ opacity: 0, scale: 0.95 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  transition={{ duration: 0.5 }}
+                  className="pt-8 border-t border-[#E6DCC8]"
                 >
-                  <Film className="w-4 h-4 mr-2" />
-                  Download Video
-                </Button>
-                <Button variant="ghost" onClick={clearAll}>
-                  Create Another
-                </Button>
-              </div>
-            </motion.section>
-          )}
-        </AnimatePresence>
+                  <div className="text-center mb-8">
+                    <h3 className="text-2xl font-serif text-[#2C2C2C] mb-2">
+                      Your Living Memory
+                    </h3>
+                    <p className="text-[#6B6B6B]">The moment, captured in time.</p>
+                  </div>
+
+                  {preview ? (
+                    <ComparisonViewer
+                      imageSrc={preview}
+                      videoSrc={generatedVideo}
+                    />
+                  ) : (
+                    <div className="relative max-w-2xl mx-auto bg-black rounded-xl overflow-hidden shadow-2xl border-[8px] border-white">
+                      <video
+                        src={generatedVideo}
+                        controls
+                        autoPlay
+                        loop
+                        className="w-full h-auto"
+                      />
+                    </div>
+                  )}
+
+                  <div className="mt-6 flex justify-center gap-4">
+                    <Button
+                      variant="outline"
+                      onClick={handleDownload}
+                      disabled={isDownloading}
+                    >
+                      {isDownloading ? (
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      ) : (
+                        <Film className="w-4 h-4 mr-2" />
+                      )}
+                      Download Video
+                    </Button>
+                    <Button variant="outline" onClick={handleCopyLink}>
+                      {linkCopied ? (
+                        <Check className="w-4 h-4 mr-2" />
+                      ) : (
+                        <LinkIcon className="w-4 h-4 mr-2" />
+                      )}
+                      {linkCopied ? "Copied!" : "Copy link"}
+                    </Button>
+                    <Button variant="ghost" onClick={clearAll}>
+                      Create Another
+                    </Button>
+                  </div>
+                  {!isShareableUrl(preview) && (
+                    <p className="mt-3 text-xs text-[#8B8B8B] text-center">
+                      Uploaded photos stay on this device, so the link only
+                      carries the settings and the clip.
+                    </p>
+                  )}
+
+                  <ExportPanel
+                    videoUrl={generatedVideo}
+                    settings={resultMeta?.settings ?? generationSettings}
+                  />
+                </motion.section>
+              )}
+            </AnimatePresence>
+          </>
+        )}
       </main>
 
       {/* Footer */}
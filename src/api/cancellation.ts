@@ -0,0 +1,20 @@
+import axios from 'axios';
+
+// Every provider signals cancellation with axios' CanceledError, so callers
+// can tell "user pressed Cancel" apart from real failures with one check.
+export const isCancelledError = (error: unknown) => axios.isCancel(error);
+
+// setTimeout that rejects as soon as the signal is aborted
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new axios.CanceledError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new axios.CanceledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
@@ -0,0 +1,225 @@
+import axios from 'axios';
+import type { ApiErrorBody, ValidationIssue } from './responses';
+
+// Typed failures thrown by the API client and providers. UI code should not
+// inspect raw HTTP responses - use these classes and describeError instead.
+
+export class ApiError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+// 401/403 - missing, wrong or revoked credentials
+export class AuthError extends ApiError {
+  constructor(message = 'The API rejected your credentials.', status = 401) {
+    super(message, status);
+    this.name = 'AuthError';
+  }
+}
+
+// 429 - `retryAfterMs` is taken from the Retry-After header when present
+export class RateLimitError extends ApiError {
+  retryAfterMs: number | null;
+
+  constructor(retryAfterMs: number | null = null) {
+    super('Too many requests. Please wait a moment and try again.', 429);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export interface ValidationFieldError {
+  // Dotted path to the offending field, e.g. "body.input_images.0.image_url"
+  field: string;
+  message: string;
+}
+
+// 400/422 - the request payload was rejected
+export class ValidationError extends ApiError {
+  fields: ValidationFieldError[];
+
+  constructor(fields: ValidationFieldError[], status = 422) {
+    super(fields.map((f) => `${f.message} (${f.field})`).join('; ') || 'Invalid request.', status);
+    this.name = 'ValidationError';
+    this.fields = fields;
+  }
+}
+
+export class NsfwRejectedError extends Error {
+  constructor() {
+    super('The image or result was flagged as NSFW.');
+    this.name = 'NsfwRejectedError';
+  }
+}
+
+export class GenerationFailedError extends Error {
+  reason?: string;
+
+  constructor(reason?: string) {
+    super(`Video generation failed${reason ? `: ${reason}` : '.'}`);
+    this.name = 'GenerationFailedError';
+    this.reason = reason;
+  }
+}
+
+export class GenerationTimeoutError extends Error {
+  timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Timed out waiting for video generation (${Math.round(timeoutMs / 1000)}s limit reached).`);
+    this.name = 'GenerationTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+// Selected motion presets without an id from the provider's motion library,
+// e.g. one the provider doesn't offer or a library that hasn't loaded yet
+export class MotionUnavailableError extends Error {
+  keys: string[];
+
+  constructor(keys: string[], names: string[]) {
+    super(`These motions aren't available right now: ${names.join(', ')}. Pick other motions or try again shortly.`);
+    this.name = 'MotionUnavailableError';
+    this.keys = keys;
+  }
+}
+
+// A queued job would go over a budget cap set to block
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+// Too many status checks failed in a row (network errors, 5xx, 429)
+export class ConnectionLostError extends Error {
+  failures: number;
+  lastError: unknown;
+
+  constructor(failures: number, lastError?: unknown) {
+    super(`Lost contact with the API after ${failures} failed status checks.`);
+    this.name = 'ConnectionLostError';
+    this.failures = failures;
+    this.lastError = lastError;
+  }
+}
+
+// Retry-After may be delta-seconds or an HTTP date
+export const parseRetryAfter = (header: unknown): number | null => {
+  if (typeof header !== 'string' && typeof header !== 'number') return null;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(header));
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+const toValidationFields = (detail: ApiErrorBody['detail']): ValidationFieldError[] => {
+  if (Array.isArray(detail)) {
+    return detail.map((issue: ValidationIssue) => ({
+      field: issue.loc ? issue.loc.join('.') : 'field',
+      message: issue.msg,
+    }));
+  }
+  if (typeof detail === 'string') return [{ field: 'request', message: detail }];
+  return [{ field: 'request', message: JSON.stringify(detail) }];
+};
+
+// Maps an HTTP error status and body onto one of the typed errors above.
+// Shared by the axios client and the progress stream, which gets failures
+// relayed by the proxy instead of as HTTP responses.
+export const errorFromResponse = (
+  status: number,
+  data: unknown,
+  retryAfter?: unknown,
+  fallbackMessage = `Request failed with status ${status}`
+): ApiError => {
+  const body = (data || {}) as ApiErrorBody;
+
+  if (status === 401 || status === 403) {
+    return new AuthError(body.message || undefined, status);
+  }
+  if (status === 429) {
+    return new RateLimitError(parseRetryAfter(retryAfter));
+  }
+  if ((status === 400 || status === 422) && body.detail) {
+    return new ValidationError(toValidationFields(body.detail), status);
+  }
+
+  const detail = typeof body.detail === 'string' ? body.detail : body.detail && JSON.stringify(body.detail);
+  return new ApiError(body.message || detail || fallbackMessage, status);
+};
+
+// Converts an axios HTTP error into one of the typed errors above.
+// Network failures and anything unrecognised are returned unchanged.
+export const toApiError = (error: unknown): unknown => {
+  if (!axios.isAxiosError(error) || !error.response) return error;
+
+  const { status, data, headers } = error.response;
+  return errorFromResponse(status, data, headers?.['retry-after'], error.message);
+};
+
+export interface ErrorDescription {
+  message: string;
+  // The fix is in the settings modal (bad or missing credentials)
+  openSettings: boolean;
+}
+
+// The single place that turns errors into user-facing copy
+export const describeError = (error: unknown): ErrorDescription => {
+  if (error instanceof AuthError) {
+    return {
+      message: 'Your API key or secret was rejected. Please check them in settings.',
+      openSettings: true,
+    };
+  }
+  if (error instanceof RateLimitError) {
+    const wait = error.retryAfterMs ? ` Try again in about ${Math.ceil(error.retryAfterMs / 1000)}s.` : '';
+    return { message: `Higgsfield is receiving too many requests right now.${wait}`, openSettings: false };
+  }
+  if (error instanceof ValidationError) {
+    const first = error.fields[0];
+    return {
+      message: first ? `API Error: ${first.message} (${first.field})` : 'The request was rejected as invalid.',
+      openSettings: false,
+    };
+  }
+  if (error instanceof NsfwRejectedError) {
+    return {
+      message: 'This photo was flagged by the content filter. Please try a different image.',
+      openSettings: false,
+    };
+  }
+  if (error instanceof GenerationTimeoutError) {
+    return {
+      message: `The request timed out. The video is taking longer than ${Math.round(error.timeoutMs / 60000)} minutes to generate.`,
+      openSettings: false,
+    };
+  }
+  if (error instanceof ConnectionLostError) {
+    return {
+      message: 'Lost connection while checking on your video. Check your network and try again.',
+      openSettings: false,
+    };
+  }
+  if (error instanceof GenerationFailedError) {
+    return {
+      message: error.reason
+        ? `The video could not be generated: ${error.reason}`
+        : 'The video could not be generated. Please try again.',
+      openSettings: false,
+    };
+  }
+  if (error instanceof Error && error.message) {
+    return { message: error.message, openSettings: false };
+  }
+  return {
+    message: 'Failed to generate video. Please check your API keys and try again.',
+    openSettings: false,
+  };
+};
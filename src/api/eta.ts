@@ -0,0 +1,94 @@
+// Rough time-left estimate for a running job, based on how long each phase
+// (queued, in_progress) took for previous jobs on this device.
+
+export interface PhaseEstimates {
+  queued: number;
+  in_progress: number;
+}
+
+export interface PollProgress {
+  // Estimated milliseconds until the video is ready, null when unknown
+  etaMs: number | null;
+}
+
+const STORAGE_KEY = 'memory-lane:phase-estimates';
+const DEFAULT_ESTIMATES: PhaseEstimates = { queued: 60000, in_progress: 240000 };
+// Weight of the latest job in the moving average
+const SMOOTHING = 0.3;
+// Never claim a phase is (almost) done just because it overran the average
+const MIN_REMAINING_FRACTION = 0.1;
+
+// localStorage is optional so the client also works outside the browser
+const storage = (): Storage | null => {
+  try {
+    return typeof localStorage === 'undefined' ? null : localStorage;
+  } catch {
+    return null;
+  }
+};
+
+export const loadPhaseEstimates = (): PhaseEstimates => {
+  try {
+    const stored = storage()?.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_ESTIMATES, ...JSON.parse(stored) } : DEFAULT_ESTIMATES;
+  } catch {
+    return DEFAULT_ESTIMATES;
+  }
+};
+
+const savePhaseEstimates = (estimates: PhaseEstimates) => {
+  storage()?.setItem(STORAGE_KEY, JSON.stringify(estimates));
+};
+
+const isPhase = (status: string): status is keyof PhaseEstimates =>
+  status === 'queued' || status === 'in_progress';
+
+export const createEtaEstimator = (estimates: PhaseEstimates = loadPhaseEstimates()) => {
+  const phaseStarts: Partial<Record<keyof PhaseEstimates, number>> = {};
+  let current: keyof PhaseEstimates | null = null;
+
+  const remainingIn = (phase: keyof PhaseEstimates, now: number) => {
+    const elapsed = now - (phaseStarts[phase] ?? now);
+    return Math.max(estimates[phase] * MIN_REMAINING_FRACTION, estimates[phase] - elapsed);
+  };
+
+  // Feed every status seen while polling; returns the current ETA
+  const observe = (status: string, now = Date.now()): number | null => {
+    if (!isPhase(status)) return null;
+    if (current !== status) {
+      current = status;
+      phaseStarts[status] = now;
+    }
+    return status === 'queued'
+      ? remainingIn('queued', now) + estimates.in_progress
+      : remainingIn('in_progress', now);
+  };
+
+  // Call once the job completed so future estimates learn from it
+  const complete = (now = Date.now()) => {
+    const next = { ...estimates };
+    const { queued, in_progress: inProgress } = phaseStarts;
+    if (queued !== undefined) {
+      next.queued = (1 - SMOOTHING) * next.queued + SMOOTHING * ((inProgress ?? now) - queued);
+    }
+    if (inProgress !== undefined) {
+      next.in_progress = (1 - SMOOTHING) * next.in_progress + SMOOTHING * (now - inProgress);
+    }
+    savePhaseEstimates(next);
+  };
+
+  return { observe, complete };
+};
+
+export const formatEta = (etaMs: number | null) => {
+  if (etaMs === null) return '';
+  const minutes = Math.round(etaMs / 60000);
+  return minutes < 1 ? 'less than a minute left' : `about ${minutes} min left`;
+};
+
+// "in_progress" + 250s -> "In progress, about 4 min left"
+export const formatStatus = (status: string, progress?: PollProgress) => {
+  const label = status.charAt(0).toUpperCase() + status.slice(1).replace(/_/g, ' ');
+  const eta = formatEta(progress?.etaMs ?? null);
+  return eta ? `${label}, ${eta}` : label;
+};
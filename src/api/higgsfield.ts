@@ -1,26 +1,157 @@
 import axios from 'axios';
+import { sleep, isCancelledError } from './cancellation';
+import {
+  AuthError,
+  ConnectionLostError,
+  GenerationFailedError,
+  GenerationTimeoutError,
+  NsfwRejectedError,
+  RateLimitError,
+  parseRetryAfter,
+  toApiError,
+} from './errors';
+import { createEtaEstimator, type PollProgress } from './eta';
+import { StreamUnavailableError, streamJobProgress } from './progressStream';
+import {
+  DEFAULT_MAX_CONSECUTIVE_FAILURES,
+  DEFAULT_POLLING_STRATEGY,
+  type PollingOptions,
+} from './polling';
+import { extractVideoUrl, isSuccessStatus, type GenerationResponse } from './responses';
 
-const API_URL = 'https://platform.higgsfield.ai/higgsfield-ai/dop/lite';
+export { isCancelledError } from './cancellation';
+export { extractVideoUrl, type GenerationResponse } from './responses';
+export type { PollProgress } from './eta';
+export type { PollingOptions } from './polling';
 
-interface GenerateVideoParams {
+// Where generate and status calls go. The default talks to Higgsfield
+// directly; the local proxy (see ./proxy) exposes the same routes.
+export interface ApiEndpoints {
+  generateUrl: string;
+  // Status is `${requestsUrl}/{id}/status`, cancel is `${requestsUrl}/{id}/cancel`
+  requestsUrl: string;
+  // Also serves `${requestsUrl}/{id}/events` (see ./progressStream)
+  streamsProgress?: boolean;
+  // Lists the DoP motion library, see fetchMotionLibrary
+  motionsUrl?: string;
+}
+
+export const HIGGSFIELD_ENDPOINTS: ApiEndpoints = {
+  generateUrl: 'https://platform.higgsfield.ai/higgsfield-ai/dop/lite',
+  requestsUrl: 'https://platform.higgsfield.ai/requests',
+  motionsUrl: 'https://platform.higgsfield.ai/v1/motions',
+};
+
+// Defaults used when the caller does not override a generation parameter
+export const DEFAULT_PROMPT = "recreate the uploaded image into a real-life motion like video";
+export const DEFAULT_SEED = 36644;
+export const DEFAULT_MOTION_ID = "31177282-bde3-4870-b283-1135ca0a201a";
+
+export interface MotionSetting {
+  id: string;
+  strength: number;
+}
+
+// One entry of the DoP motion library
+export interface MotionLibraryEntry {
+  id: string;
+  name: string;
+}
+
+// The generation inputs, independent of credentials and callbacks
+export interface GenerationRequest {
   imageUrl: string;
+  prompt?: string;
+  seed?: number;
+  motions?: MotionSetting[];
+  enhancePrompt?: boolean;
+  checkNsfw?: boolean;
+}
+
+interface Credentials {
   apiKey: string;
   apiSecret: string;
-  onStatusUpdate?: (status: string) => void;
 }
 
-export const generateMemoryVideo = async ({ imageUrl, apiKey, apiSecret, onStatusUpdate }: GenerateVideoParams) => {
+// Where the client narrates its requests and polls. The console unless the
+// caller passes something quieter, like the CLI does.
+export type ApiLogger = Pick<Console, 'log' | 'warn' | 'error'>;
+
+export const SILENT_LOGGER: ApiLogger = { log: () => {}, warn: () => {}, error: () => {} };
+
+// `progress` is only passed for statuses reported while polling
+export type StatusUpdateHandler = (status: string, progress?: PollProgress) => void;
+
+export interface GenerateVideoParams extends GenerationRequest, Credentials {
+  signal?: AbortSignal;
+  endpoints?: ApiEndpoints;
+  polling?: PollingOptions;
+  onStatusUpdate?: StatusUpdateHandler;
+  // Called once the job is queued, so callers can persist it and resume later
+  onJobCreated?: (job: JobHandle) => void;
+  logger?: ApiLogger;
+}
+
+export interface JobHandle {
+  requestId: string;
+  statusUrl: string;
+  startedAt: number;
+}
+
+type SubmitParams = GenerationRequest &
+  Credentials & { signal?: AbortSignal; endpoints?: ApiEndpoints; logger?: ApiLogger };
+
+// `job` is null when the API answered with a finished video straight away
+export interface SubmitResult {
+  data: GenerationResponse;
+  job: JobHandle | null;
+}
+
+interface PollJobParams extends Credentials {
+  requestId: string;
+  statusUrl: string;
+  startedAt?: number;
+  signal?: AbortSignal;
+  polling?: PollingOptions;
+  onStatusUpdate?: StatusUpdateHandler;
+  logger?: ApiLogger;
+}
+
+export const TIMEOUT_MS = 2000000; // 2000 seconds (~33 mins)
+
+// Failure reason for a job dropped through cancelJob, e.g. from another tab
+export const CANCELLED_REASON = 'The job was cancelled.';
+
+// Credentials are left out when empty - the proxy adds its own
+const buildHeaders = (apiKey: string, apiSecret: string) => ({
+  'Content-Type': 'application/json',
+  ...(apiKey && { 'hf-api-key': apiKey }),
+  ...(apiSecret && { 'hf-secret': apiSecret })
+});
+
+// Helper to check if video is ready
+const isVideoReady = (response: GenerationResponse) => extractVideoUrl(response) !== null;
+
+// Starts a generation job without waiting for it to finish
+export const submitGeneration = async ({
+  imageUrl,
+  apiKey,
+  apiSecret,
+  prompt = DEFAULT_PROMPT,
+  seed = DEFAULT_SEED,
+  motions = [{ id: DEFAULT_MOTION_ID, strength: 1 }],
+  enhancePrompt = true,
+  checkNsfw = true,
+  signal,
+  endpoints = HIGGSFIELD_ENDPOINTS,
+  logger = console
+}: SubmitParams): Promise<SubmitResult> => {
   // Payload construction
   const payload = {
-    prompt: "recreate the uploaded image into a real-life motion like video",
+    prompt,
     image2video_model: "dop-lite",
-    seed: 36644,
-    motions: [
-      {
-        "id": "31177282-bde3-4870-b283-1135ca0a201a",
-        "strength": 1
-      }
-    ],
+    seed,
+    motions,
     // API requires image_url at root
     image_url: imageUrl,
     input_images: [
@@ -29,98 +160,268 @@ export const generateMemoryVideo = async ({ imageUrl, apiKey, apiSecret, onStatu
         image_url: imageUrl 
       }
     ],
-    enhance_prompt: true,
-    check_nsfw: true
+    enhance_prompt: enhancePrompt,
+    check_nsfw: checkNsfw
   };
 
-  const headers = {
-    'Content-Type': 'application/json',
-    'hf-api-key': apiKey,
-    'hf-secret': apiSecret
-  };
+  const headers = buildHeaders(apiKey, apiSecret);
+
+  // 1. Start the generation job
+  logger.log("Starting video generation job...");
 
+  let data: GenerationResponse;
   try {
-    // 1. Start the generation job
-    console.log("Starting video generation job...");
-    if (onStatusUpdate) onStatusUpdate("Initializing...");
-    
-    const initialResponse = await axios.post(API_URL, payload, {
+    const initialResponse = await axios.post<GenerationResponse>(endpoints.generateUrl, payload, {
       headers,
+      signal,
       timeout: 30000 // Short timeout for the initial handshake
     });
+    data = initialResponse.data;
+  } catch (error) {
+    throw toApiError(error);
+  }
+
+  logger.log("Initial API Response:", data);
+
+  // If it wasn't queued (immediate response), there is nothing to poll
+  if (isVideoReady(data)) return { data, job: null };
 
-    let data = initialResponse.data;
-    console.log("Initial API Response:", data);
+  // Determine the correct status URL and ID based on docs
+  const requestId = data.request_id || data.id;
+  let statusUrl = data.status_url;
 
-    // Helper to check if video is ready
-    const isVideoReady = (response: any) => {
-      return response.video?.url || response.output || response.url || (Array.isArray(response.output) && response.output.length > 0);
-    };
+  if (!statusUrl && requestId) {
+    // Fallback to documented pattern if status_url is missing
+    statusUrl = `${endpoints.requestsUrl}/${requestId}/status`;
+  } else if (!statusUrl) {
+     logger.warn("No request_id and no status_url found. Returning data as is.", data);
+     return { data, job: null };
+  }
+
+  logger.log(`Job started (ID: ${requestId}). Polling URL: ${statusUrl}`);
+  // Without an id the status URL is the only stable handle we have
+  return { data, job: { requestId: requestId || statusUrl, statusUrl, startedAt: Date.now() } };
+};
+
+export const generateMemoryVideo = async ({
+  signal,
+  polling,
+  onStatusUpdate,
+  onJobCreated,
+  logger = console,
+  ...params
+}: GenerateVideoParams): Promise<GenerationResponse> => {
+  try {
+    if (onStatusUpdate) onStatusUpdate("Initializing...");
+    const { data, job } = await submitGeneration({ ...params, signal, logger });
 
     // 2. Logic: If video is NOT ready, we MUST poll.
-    if (!isVideoReady(data)) {
-      // Determine the correct status URL and ID based on docs
-      const requestId = data.request_id || data.id;
-      let statusUrl = data.status_url;
-
-      if (!statusUrl && requestId) {
-        // Fallback to documented pattern if status_url is missing
-        statusUrl = `https://platform.higgsfield.ai/requests/${requestId}/status`;
-      } else if (!statusUrl && !requestId) {
-         console.warn("No request_id and no status_url found. Returning data as is.", data);
-         return data;
-      }
+    if (!job) return data;
 
-      console.log(`Job started (ID: ${requestId}). Polling URL: ${statusUrl}`);
-      if (onStatusUpdate) onStatusUpdate(data.status || "Queued");
-
-      const startTime = Date.now();
-      const TIMEOUT_MS = 2000000; // 2000 seconds (~33 mins)
-      const POLLING_INTERVAL = 5000; // 5 seconds
-
-      // 3. Polling Loop
-      while (Date.now() - startTime < TIMEOUT_MS) {
-        // Wait before next check
-        await new Promise(resolve => setTimeout(resolve, POLLING_INTERVAL));
-
-        try {
-          const statusResponse = await axios.get(statusUrl, { headers });
-          data = statusResponse.data;
-          
-          const currentStatus = data.status || "in_progress";
-          console.log(`Polling status for ${requestId}:`, currentStatus);
-          
-          if (onStatusUpdate) onStatusUpdate(currentStatus);
-
-          if (currentStatus === 'completed' || currentStatus === 'success' || isVideoReady(data)) {
-            // Success! 
-            return data;
-          }
-
-          if (currentStatus === 'failed' || currentStatus === 'nsfw') {
-            throw new Error(`Video generation failed: ${data.error || currentStatus}`);
-          }
-
-          // Continue polling...
-
-        } catch (pollError: any) {
-          console.warn("Error while polling status:", pollError.message);
-          // Stop polling only if it's a client error (4xx) excluding 429 (rate limit)
-          if (pollError.response && pollError.response.status >= 400 && pollError.response.status < 500 && pollError.response.status !== 429) {
-             throw pollError;
-          }
-          // Otherwise (network error, 5xx, or 429), keep trying
-        }
-      }
+    if (onStatusUpdate) onStatusUpdate(data.status || "Queued");
+    if (onJobCreated) onJobCreated(job);
 
-      throw new Error("Timed out waiting for video generation (2000s limit reached).");
+    return await waitForJob({
+      ...job,
+      apiKey: params.apiKey,
+      apiSecret: params.apiSecret,
+      endpoints: params.endpoints,
+      signal,
+      polling,
+      onStatusUpdate,
+      logger
+    });
+  } catch (error) {
+    if (isCancelledError(error)) {
+      logger.log("Video generation cancelled.");
+      throw error;
     }
+    logger.error("Error in generateMemoryVideo:", error);
+    throw error;
+  }
+};
+
+// Asks the API to drop a queued job. Best effort - a job that already
+// started rendering may still finish (and be billed) on Higgsfield's side.
+export const cancelJob = async ({
+  requestId,
+  apiKey,
+  apiSecret,
+  endpoints = HIGGSFIELD_ENDPOINTS,
+  logger = console
+}: Credentials & { requestId: string; endpoints?: ApiEndpoints; logger?: ApiLogger }) => {
+  try {
+    await axios.post(`${endpoints.requestsUrl}/${requestId}/cancel`, null, {
+      headers: buildHeaders(apiKey, apiSecret),
+      timeout: 10000
+    });
+  } catch (error) {
+    const typedError = toApiError(error);
+    logger.warn(`Could not cancel job ${requestId}:`, typedError instanceof Error ? typedError.message : typedError);
+  }
+};
 
-    // If it wasn't queued (immediate response), return data
-    return data;
+const isLibraryEntry = (value: unknown): value is MotionLibraryEntry =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as MotionLibraryEntry).id === 'string' &&
+  typeof (value as MotionLibraryEntry).name === 'string';
 
+// The motions available to these credentials. The list may come bare or
+// wrapped in an object, so both shapes are accepted.
+export const fetchMotionLibrary = async ({
+  apiKey,
+  apiSecret,
+  signal,
+  endpoints = HIGGSFIELD_ENDPOINTS
+}: Credentials & { signal?: AbortSignal; endpoints?: ApiEndpoints }): Promise<MotionLibraryEntry[]> => {
+  if (!endpoints.motionsUrl) return [];
+  let data: unknown;
+  try {
+    ({ data } = await axios.get(endpoints.motionsUrl, {
+      headers: buildHeaders(apiKey, apiSecret),
+      signal,
+      timeout: 15000
+    }));
   } catch (error) {
-    console.error("Error in generateMemoryVideo:", error);
-    throw error;
+    throw toApiError(error);
+  }
+  const wrapped = data as { items?: unknown; motions?: unknown; data?: unknown } | null;
+  const list = Array.isArray(data) ? data : wrapped?.items ?? wrapped?.motions ?? wrapped?.data;
+  return Array.isArray(list) ? list.filter(isLibraryEntry) : [];
+};
+
+export type ConnectionTestResult =
+  | { status: 'ok' }
+  | { status: 'invalid_credentials' }
+  | { status: 'rate_limited'; retryAfterMs: number | null }
+  | { status: 'network'; message: string }
+  | { status: 'error'; message: string };
+
+// Id that never belongs to a real job, so the probe cannot touch one
+const PROBE_REQUEST_ID = '00000000-0000-0000-0000-000000000000';
+
+// Cheap authenticated call that costs no credits: looks up a job that does
+// not exist. Valid keys get a 404 (or 4xx validation error), bad ones 401/403.
+export const testConnection = async ({
+  apiKey,
+  apiSecret,
+  signal,
+  endpoints = HIGGSFIELD_ENDPOINTS
+}: Credentials & { signal?: AbortSignal; endpoints?: ApiEndpoints }): Promise<ConnectionTestResult> => {
+  try {
+    await axios.get(`${endpoints.requestsUrl}/${PROBE_REQUEST_ID}/status`, {
+      headers: buildHeaders(apiKey, apiSecret),
+      signal,
+      timeout: 10000
+    });
+    return { status: 'ok' };
+  } catch (error) {
+    if (isCancelledError(error)) throw error;
+    if (!axios.isAxiosError(error) || !error.response) {
+      return { status: 'network', message: (error instanceof Error && error.message) || 'Network error' };
+    }
+    const typedError = toApiError(error);
+    if (typedError instanceof AuthError) return { status: 'invalid_credentials' };
+    if (typedError instanceof RateLimitError) {
+      return { status: 'rate_limited', retryAfterMs: typedError.retryAfterMs };
+    }
+    if (error.response.status < 500) return { status: 'ok' };
+    return { status: 'error', message: typedError instanceof Error ? typedError.message : error.message };
+  }
+};
+
+// Polls an already submitted job until it finishes. Used by generateMemoryVideo
+// and to resume jobs that were started before a page reload.
+export const pollExistingJob = async ({
+  requestId,
+  statusUrl,
+  apiKey,
+  apiSecret,
+  startedAt = Date.now(),
+  signal,
+  polling = {},
+  onStatusUpdate,
+  logger = console
+}: PollJobParams): Promise<GenerationResponse> => {
+  const {
+    strategy = DEFAULT_POLLING_STRATEGY,
+    timeoutMs = TIMEOUT_MS,
+    maxConsecutiveFailures = DEFAULT_MAX_CONSECUTIVE_FAILURES,
+  } = polling;
+  const headers = buildHeaders(apiKey, apiSecret);
+  const eta = createEtaEstimator();
+
+  let attempt = 0;
+  let consecutiveFailures = 0;
+  let retryAfterMs: number | null = null;
+
+  // 3. Polling Loop - the timeout counts from when the job was submitted
+  while (Date.now() - startedAt < timeoutMs) {
+    // Wait before next check
+    await sleep(strategy.nextDelay({ attempt, consecutiveFailures, retryAfterMs }), signal);
+    attempt += 1;
+
+    let data: GenerationResponse;
+    try {
+      const statusResponse = await axios.get<GenerationResponse>(statusUrl, { headers, signal });
+      data = statusResponse.data;
+    } catch (pollError) {
+      if (isCancelledError(pollError)) throw pollError;
+      const typedError = toApiError(pollError);
+      logger.warn("Error while polling status:", typedError instanceof Error ? typedError.message : typedError);
+      // Stop polling only if it's a client error (4xx) excluding 429 (rate limit)
+      const response = axios.isAxiosError(pollError) ? pollError.response : undefined;
+      const status = response?.status;
+      if (status !== undefined && status >= 400 && status < 500 && !(typedError instanceof RateLimitError)) {
+         throw typedError;
+      }
+      // Otherwise (network error, 5xx, or 429), back off and keep trying
+      consecutiveFailures += 1;
+      if (consecutiveFailures >= maxConsecutiveFailures) {
+        throw new ConnectionLostError(consecutiveFailures, typedError);
+      }
+      retryAfterMs = parseRetryAfter(response?.headers?.['retry-after']);
+      continue;
+    }
+
+    consecutiveFailures = 0;
+    retryAfterMs = null;
+
+    const currentStatus = data.status || "in_progress";
+    logger.log(`Polling status for ${requestId}:`, currentStatus);
+
+    if (onStatusUpdate) onStatusUpdate(currentStatus, { etaMs: eta.observe(currentStatus) });
+
+    if (isSuccessStatus(data.status) || isVideoReady(data)) {
+      // Success!
+      eta.complete();
+      return data;
+    }
+
+    if (currentStatus === 'nsfw') throw new NsfwRejectedError();
+    if (currentStatus === 'failed') throw new GenerationFailedError(data.error);
+    if (currentStatus === 'cancelled') throw new GenerationFailedError(data.error ?? CANCELLED_REASON);
+
+    // Continue polling...
+  }
+
+  throw new GenerationTimeoutError(timeoutMs);
+};
+
+// Waits for a submitted job using the progress stream when the endpoints
+// offer one, and the polling loop above otherwise (or if the stream fails to open).
+export const waitForJob = async ({
+  endpoints = HIGGSFIELD_ENDPOINTS,
+  ...params
+}: PollJobParams & { endpoints?: ApiEndpoints }): Promise<GenerationResponse> => {
+  if (endpoints.streamsProgress) {
+    try {
+      return await streamJobProgress({ ...params, endpoints });
+    } catch (error) {
+      if (!(error instanceof StreamUnavailableError)) throw error;
+      (params.logger ?? console).warn("Progress stream unavailable, falling back to polling.");
+    }
   }
+  return pollExistingJob(params);
 };
@@ -0,0 +1,53 @@
+// Pluggable timing for status polling. A strategy only decides how long to
+// wait before the next status check; the loop itself lives in pollExistingJob.
+
+export interface PollingContext {
+  // Number of status checks made so far
+  attempt: number;
+  // Failed checks in a row (network errors, 5xx, 429)
+  consecutiveFailures: number;
+  // Delay requested by the server via Retry-After, if any
+  retryAfterMs: number | null;
+}
+
+export interface PollingStrategy {
+  nextDelay: (context: PollingContext) => number;
+}
+
+export interface PollingOptions {
+  strategy?: PollingStrategy;
+  // Overall limit, counted from when the job was submitted
+  timeoutMs?: number;
+  // Give up after this many failed checks in a row
+  maxConsecutiveFailures?: number;
+}
+
+export const fixedInterval = (intervalMs: number): PollingStrategy => ({
+  nextDelay: ({ retryAfterMs }) => Math.max(intervalMs, retryAfterMs ?? 0),
+});
+
+interface BackoffOptions {
+  intervalMs?: number;
+  maxIntervalMs?: number;
+  factor?: number;
+  // Fraction of the delay to randomise (+/-), so many tabs don't poll in lockstep
+  jitter?: number;
+}
+
+// Polls at `intervalMs` while the API is healthy and backs off exponentially
+// on consecutive failures. A Retry-After from the server always wins if longer.
+export const exponentialBackoff = ({
+  intervalMs = 5000,
+  maxIntervalMs = 60000,
+  factor = 2,
+  jitter = 0.2,
+}: BackoffOptions = {}): PollingStrategy => ({
+  nextDelay: ({ consecutiveFailures, retryAfterMs }) => {
+    const base = Math.min(maxIntervalMs, intervalMs * factor ** consecutiveFailures);
+    const spread = base * jitter * (Math.random() * 2 - 1);
+    return Math.max(retryAfterMs ?? 0, Math.round(base + spread));
+  },
+});
+
+export const DEFAULT_POLLING_STRATEGY = exponentialBackoff();
+export const DEFAULT_MAX_CONSECUTIVE_FAILURES = 10;
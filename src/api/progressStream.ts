@@ -0,0 +1,183 @@
+import axios from 'axios';
+import {
+  ConnectionLostError,
+  GenerationFailedError,
+  GenerationTimeoutError,
+  NsfwRejectedError,
+  errorFromResponse,
+} from './errors';
+import type { PollProgress } from './eta';
+import type { ApiEndpoints, StatusUpdateHandler } from './higgsfield';
+import { DEFAULT_MAX_CONSECUTIVE_FAILURES, type PollingOptions } from './polling';
+import type { GenerationResponse } from './responses';
+
+// Job progress pushed by the proxy over Server-Sent Events. The proxy polls
+// upstream once per request id however many tabs are watching, and relays
+// every change as one of these named events:
+//   status  -> StatusEvent, repeated while the job runs
+//   result  -> ResultEvent, the final response with the video
+//   failure -> FailureEvent, the job or the upstream API gave up
+// The stream is closed by the server after `result` or `failure`.
+
+export interface StatusEvent {
+  status: string;
+  etaMs: number | null;
+}
+
+export interface ResultEvent {
+  response: GenerationResponse;
+}
+
+export type FailureEvent =
+  | { kind: 'failed'; reason?: string }
+  | { kind: 'nsfw' }
+  | { kind: 'http'; status: number; body: unknown; retryAfter: string | null }
+  | { kind: 'connection_lost'; failures: number }
+  | { kind: 'timeout'; timeoutMs: number };
+
+// The stream could not be opened at all (no EventSource, proxy without SSE
+// support, rate limited...). Callers fall back to polling.
+export class StreamUnavailableError extends Error {
+  constructor() {
+    super('Progress stream is not available.');
+    this.name = 'StreamUnavailableError';
+  }
+}
+
+export const eventsUrl = (endpoints: ApiEndpoints, requestId: string) =>
+  `${endpoints.requestsUrl}/${requestId}/events`;
+
+// Turns a relayed failure into the same typed error polling would have thrown
+export const failureToError = (failure: FailureEvent): Error => {
+  switch (failure.kind) {
+    case 'nsfw':
+      return new NsfwRejectedError();
+    case 'failed':
+      return new GenerationFailedError(failure.reason);
+    case 'http':
+      return errorFromResponse(failure.status, failure.body, failure.retryAfter);
+    case 'connection_lost':
+      return new ConnectionLostError(failure.failures);
+    case 'timeout':
+      return new GenerationTimeoutError(failure.timeoutMs);
+  }
+};
+
+interface JobSubscriptionHandlers {
+  onStatus?: (status: string, progress: PollProgress) => void;
+  onResult: (response: GenerationResponse) => void;
+  onError: (error: Error) => void;
+  maxConsecutiveFailures?: number;
+}
+
+// Low-level subscription. Returns an unsubscribe function; handlers are always
+// called asynchronously, and never after unsubscribing or after onResult/onError.
+export const subscribeToJob = (
+  endpoints: ApiEndpoints,
+  requestId: string,
+  { onStatus, onResult, onError, maxConsecutiveFailures = DEFAULT_MAX_CONSECUTIVE_FAILURES }: JobSubscriptionHandlers
+) => {
+  if (typeof EventSource === 'undefined') {
+    let active = true;
+    queueMicrotask(() => active && onError(new StreamUnavailableError()));
+    return () => {
+      active = false;
+    };
+  }
+
+  const source = new EventSource(eventsUrl(endpoints, requestId));
+  let received = false;
+  let failures = 0;
+
+  const finish = (callback: () => void) => {
+    source.close();
+    callback();
+  };
+
+  const parse = <T,>(event: MessageEvent) => {
+    received = true;
+    failures = 0;
+    return JSON.parse(event.data) as T;
+  };
+
+  source.addEventListener('status', (event) => {
+    const { status, etaMs } = parse<StatusEvent>(event as MessageEvent);
+    if (onStatus) onStatus(status, { etaMs });
+  });
+  source.addEventListener('result', (event) => {
+    const { response } = parse<ResultEvent>(event as MessageEvent);
+    finish(() => onResult(response));
+  });
+  source.addEventListener('failure', (event) => {
+    const failure = parse<FailureEvent>(event as MessageEvent);
+    finish(() => onError(failureToError(failure)));
+  });
+
+  // EventSource reconnects by itself after network blips (readyState
+  // CONNECTING); CLOSED means the server refused the stream outright.
+  source.onerror = () => {
+    if (source.readyState === EventSource.CLOSED) {
+      finish(() => onError(received ? new ConnectionLostError(failures + 1) : new StreamUnavailableError()));
+      return;
+    }
+    failures += 1;
+    if (failures >= maxConsecutiveFailures) {
+      finish(() => onError(new ConnectionLostError(failures)));
+    }
+  };
+
+  return () => source.close();
+};
+
+interface StreamJobParams {
+  requestId: string;
+  endpoints: ApiEndpoints;
+  startedAt?: number;
+  signal?: AbortSignal;
+  polling?: PollingOptions;
+  onStatusUpdate?: StatusUpdateHandler;
+}
+
+// Promise counterpart of pollExistingJob backed by the progress stream.
+// Rejects with StreamUnavailableError when the caller should poll instead.
+export const streamJobProgress = ({
+  requestId,
+  endpoints,
+  startedAt = Date.now(),
+  signal,
+  polling = {},
+  onStatusUpdate,
+}: StreamJobParams) =>
+  new Promise<GenerationResponse>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new axios.CanceledError());
+      return;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const settle = (callback: () => void) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      unsubscribe();
+      callback();
+    };
+    const onAbort = () => settle(() => reject(new axios.CanceledError()));
+
+    const unsubscribe = subscribeToJob(endpoints, requestId, {
+      onStatus: onStatusUpdate,
+      onResult: (response) => settle(() => resolve(response)),
+      onError: (error) => settle(() => reject(error)),
+      maxConsecutiveFailures: polling.maxConsecutiveFailures,
+    });
+
+    signal?.addEventListener('abort', onAbort);
+
+    // Without an override the server's own limit applies
+    if (polling.timeoutMs !== undefined) {
+      const timeoutMs = polling.timeoutMs;
+      timer = setTimeout(
+        () => settle(() => reject(new GenerationTimeoutError(timeoutMs))),
+        Math.max(0, startedAt + timeoutMs - Date.now())
+      );
+    }
+  });
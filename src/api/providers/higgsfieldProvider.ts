@@ -0,0 +1,21 @@
+import { submitGeneration, pollExistingJob, cancelJob, fetchMotionLibrary } from '../higgsfield';
+import type { VideoProvider } from './types';
+
+export const higgsfieldProvider: VideoProvider = {
+  id: 'higgsfield',
+  name: 'Higgsfield DoP Lite',
+  description: 'Real generations on Higgsfield AI. Requires an API key and secret.',
+  capabilities: {
+    requiresCredentials: true,
+    supportsMotions: true,
+    supportsSeed: true,
+    supportsPromptEnhancement: true,
+    supportsCancel: true,
+  },
+  submit: (request, { credentials, signal }) =>
+    submitGeneration({ ...request, ...credentials, signal }),
+  poll: (job, { credentials, signal, polling, onStatusUpdate }) =>
+    pollExistingJob({ ...job, ...credentials, signal, polling, onStatusUpdate }),
+  cancel: (job, credentials) => cancelJob({ requestId: job.requestId, ...credentials }),
+  listMotions: (credentials, signal) => fetchMotionLibrary({ ...credentials, signal }),
+};
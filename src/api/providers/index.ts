@@ -0,0 +1,56 @@
+import { isCancelledError } from '../cancellation';
+import type { GenerationRequest, JobHandle, StatusUpdateHandler } from '../higgsfield';
+import type { PollingOptions } from '../polling';
+import type { GenerationResponse } from '../responses';
+import { higgsfieldProvider } from './higgsfieldProvider';
+import { mockProvider } from './mockProvider';
+import { proxyProvider } from './proxyProvider';
+import type { ProviderCredentials, ProviderId, VideoProvider } from './types';
+
+export type { ProviderId, VideoProvider, ProviderCapabilities, ProviderCredentials } from './types';
+
+export const PROVIDERS: Record<ProviderId, VideoProvider> = {
+  higgsfield: higgsfieldProvider,
+  proxy: proxyProvider,
+  mock: mockProvider,
+};
+
+export const DEFAULT_PROVIDER_ID: ProviderId = 'higgsfield';
+
+export const isProviderId = (value: unknown): value is ProviderId =>
+  typeof value === 'string' && value in PROVIDERS;
+
+export const getProvider = (id: ProviderId) => PROVIDERS[id] ?? PROVIDERS[DEFAULT_PROVIDER_ID];
+
+interface GenerateWithProviderParams {
+  request: GenerationRequest;
+  credentials: ProviderCredentials;
+  signal?: AbortSignal;
+  polling?: PollingOptions;
+  onStatusUpdate?: StatusUpdateHandler;
+  // Called once the job is queued, so callers can persist it and resume later
+  onJobCreated?: (job: JobHandle) => void;
+}
+
+// Provider-agnostic equivalent of generateMemoryVideo: submit, then poll
+// until the job settles. Aborting also asks the provider to drop the job.
+export const generateWithProvider = async (
+  provider: VideoProvider,
+  { request, credentials, signal, polling, onStatusUpdate, onJobCreated }: GenerateWithProviderParams
+): Promise<GenerationResponse> => {
+  if (onStatusUpdate) onStatusUpdate('Initializing...');
+  const { data, job } = await provider.submit(request, { credentials, signal });
+  if (!job) return data;
+
+  if (onStatusUpdate) onStatusUpdate(data.status || 'Queued');
+  if (onJobCreated) onJobCreated(job);
+
+  try {
+    return await provider.poll(job, { credentials, signal, polling, onStatusUpdate });
+  } catch (error) {
+    if (isCancelledError(error) && provider.capabilities.supportsCancel) {
+      provider.cancel(job, credentials).catch(console.warn);
+    }
+    throw error;
+  }
+};
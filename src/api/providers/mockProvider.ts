@@ -0,0 +1,102 @@
+import { sleep } from '../cancellation';
+import { GenerationFailedError, GenerationTimeoutError, NsfwRejectedError } from '../errors';
+import type { VideoProvider } from './types';
+
+// Offline provider for development, demos and tests. No keys, no network:
+// jobs walk through queued -> in_progress -> outcome on a fixed timeline and
+// completed jobs return the bundled sample clip.
+//
+// The outcome is picked from the prompt so every path can be exercised:
+//   "#fail" -> failed, "#nsfw" -> nsfw, anything else -> completed
+
+type MockOutcome = 'completed' | 'failed' | 'nsfw';
+
+interface MockProviderOptions {
+  queuedMs?: number;
+  renderMs?: number;
+  pollIntervalMs?: number;
+  submitDelayMs?: number;
+  videoUrl?: string;
+}
+
+export const SAMPLE_VIDEO_URL = `${import.meta.env.BASE_URL}samples/sample-memory.mp4`;
+
+const pickOutcome = (prompt = ''): MockOutcome => {
+  if (prompt.includes('#fail')) return 'failed';
+  if (prompt.includes('#nsfw')) return 'nsfw';
+  return 'completed';
+};
+
+// Everything needed to replay a job lives in its id, so polling is a pure
+// function of elapsed time and still works after a page reload.
+const encodeRequestId = (outcome: MockOutcome, startedAt: number) => `mock-${outcome}-${startedAt}`;
+
+const decodeOutcome = (requestId: string): MockOutcome => {
+  const outcome = requestId.split('-')[1];
+  return outcome === 'failed' || outcome === 'nsfw' ? outcome : 'completed';
+};
+
+export const createMockProvider = ({
+  queuedMs = 3000,
+  renderMs = 6000,
+  pollIntervalMs = 1000,
+  submitDelayMs = 400,
+  videoUrl = SAMPLE_VIDEO_URL,
+}: MockProviderOptions = {}): VideoProvider => {
+  const statusAt = (requestId: string, elapsed: number) => {
+    if (elapsed < queuedMs) return 'queued';
+    if (elapsed < queuedMs + renderMs) return 'in_progress';
+    return decodeOutcome(requestId);
+  };
+
+  return {
+    id: 'mock',
+    name: 'Offline demo',
+    description: 'Simulated generations that return a sample clip. No keys or network needed.',
+    capabilities: {
+      requiresCredentials: false,
+      supportsMotions: true,
+      supportsSeed: true,
+      supportsPromptEnhancement: true,
+      supportsCancel: true,
+    },
+
+    submit: async (request, { signal }) => {
+      await sleep(submitDelayMs, signal);
+      const startedAt = Date.now();
+      const requestId = encodeRequestId(pickOutcome(request.prompt), startedAt);
+      console.log(`[mock] Job started (ID: ${requestId})`);
+      return {
+        data: { request_id: requestId, status: 'queued' },
+        job: { requestId, statusUrl: `mock://requests/${requestId}/status`, startedAt },
+      };
+    },
+
+    // The timeline is known up front, so the ETA is exact
+    poll: async (job, { signal, polling, onStatusUpdate }) => {
+      for (;;) {
+        await sleep(pollIntervalMs, signal);
+        const elapsed = Date.now() - job.startedAt;
+        if (polling?.timeoutMs !== undefined && elapsed >= polling.timeoutMs) {
+          throw new GenerationTimeoutError(polling.timeoutMs);
+        }
+        const status = statusAt(job.requestId, elapsed);
+        if (onStatusUpdate) {
+          onStatusUpdate(status, { etaMs: Math.max(0, queuedMs + renderMs - elapsed) });
+        }
+
+        if (status === 'completed') {
+          return { request_id: job.requestId, status, video: { url: videoUrl } };
+        }
+        if (status === 'nsfw') throw new NsfwRejectedError();
+        if (status === 'failed') throw new GenerationFailedError('simulated failure');
+      }
+    },
+
+    cancel: async (job) => {
+      console.log(`[mock] Job ${job.requestId} cancelled`);
+    },
+  };
+};
+
+export const mockProvider = createMockProvider();
@@ -0,0 +1,27 @@
+import { submitGeneration, waitForJob, cancelJob, fetchMotionLibrary } from '../higgsfield';
+import { PROXY_ENDPOINTS } from '../proxy';
+import type { VideoProvider } from './types';
+
+// Higgsfield through the local proxy. The proxy adds the credentials, so the
+// browser sends none and never sees the secret.
+const NO_CREDENTIALS = { apiKey: '', apiSecret: '' };
+
+export const proxyProvider: VideoProvider = {
+  id: 'proxy',
+  name: 'Higgsfield via proxy',
+  description: 'Real generations through the local proxy server. Keys stay on the server.',
+  capabilities: {
+    requiresCredentials: false,
+    supportsMotions: true,
+    supportsSeed: true,
+    supportsPromptEnhancement: true,
+    supportsCancel: true,
+  },
+  submit: (request, { signal }) =>
+    submitGeneration({ ...request, ...NO_CREDENTIALS, signal, endpoints: PROXY_ENDPOINTS }),
+  // Progress comes over the proxy's event stream, one upstream poll per job
+  poll: (job, { signal, polling, onStatusUpdate }) =>
+    waitForJob({ ...job, ...NO_CREDENTIALS, endpoints: PROXY_ENDPOINTS, signal, polling, onStatusUpdate }),
+  cancel: (job) => cancelJob({ requestId: job.requestId, ...NO_CREDENTIALS, endpoints: PROXY_ENDPOINTS }),
+  listMotions: (_credentials, signal) => fetchMotionLibrary({ ...NO_CREDENTIALS, signal, endpoints: PROXY_ENDPOINTS }),
+};
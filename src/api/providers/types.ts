@@ -0,0 +1,53 @@
+import type {
+  GenerationRequest,
+  JobHandle,
+  MotionLibraryEntry,
+  StatusUpdateHandler,
+  SubmitResult,
+} from '../higgsfield';
+import type { PollingOptions } from '../polling';
+import type { GenerationResponse } from '../responses';
+
+export type ProviderId = 'higgsfield' | 'proxy' | 'mock';
+
+export interface ProviderCredentials {
+  apiKey: string;
+  apiSecret: string;
+}
+
+// What the UI may offer for a given provider
+export interface ProviderCapabilities {
+  requiresCredentials: boolean;
+  supportsMotions: boolean;
+  supportsSeed: boolean;
+  supportsPromptEnhancement: boolean;
+  supportsCancel: boolean;
+}
+
+export interface SubmitOptions {
+  credentials: ProviderCredentials;
+  signal?: AbortSignal;
+}
+
+export interface PollOptions {
+  credentials: ProviderCredentials;
+  signal?: AbortSignal;
+  // Interval, backoff and timeout overrides; providers may ignore what does not apply
+  polling?: PollingOptions;
+  onStatusUpdate?: StatusUpdateHandler;
+}
+
+// A video generation backend. `submit` queues a job, `poll` waits for it to
+// settle and resolves with the final response (or throws one of the typed
+// errors from ../errors), `cancel` drops it remotely. `listMotions` returns
+// the motion library; providers without one accept any preset.
+export interface VideoProvider {
+  id: ProviderId;
+  name: string;
+  description: string;
+  capabilities: ProviderCapabilities;
+  submit: (request: GenerationRequest, options: SubmitOptions) => Promise<SubmitResult>;
+  poll: (job: JobHandle, options: PollOptions) => Promise<GenerationResponse>;
+  cancel: (job: JobHandle, credentials: ProviderCredentials) => Promise<void>;
+  listMotions?: (credentials: ProviderCredentials, signal?: AbortSignal) => Promise<MotionLibraryEntry[]>;
+}
@@ -0,0 +1,30 @@
+import axios from 'axios';
+import type { ApiEndpoints } from './higgsfield';
+
+// The optional local proxy (see /server) keeps the Higgsfield credentials
+// server-side. It is mounted on the dev server by default; set VITE_PROXY_URL
+// when it runs standalone on another origin.
+export const PROXY_BASE_URL: string = import.meta.env.VITE_PROXY_URL || '/api/higgsfield';
+
+export const PROXY_ENDPOINTS: ApiEndpoints = {
+  generateUrl: `${PROXY_BASE_URL}/generate`,
+  requestsUrl: `${PROXY_BASE_URL}/requests`,
+  streamsProgress: true,
+  motionsUrl: `${PROXY_BASE_URL}/motions`,
+};
+
+interface ProxyHealth {
+  proxy: boolean;
+  // False when the proxy runs without credentials configured
+  configured: boolean;
+}
+
+// Resolves true only when a proxy answers and has credentials to forward with
+export const detectProxy = async (signal?: AbortSignal) => {
+  try {
+    const { data } = await axios.get<ProxyHealth>(`${PROXY_BASE_URL}/health`, { signal, timeout: 3000 });
+    return data?.proxy === true && data.configured === true;
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,48 @@
+// Shapes returned by the Higgsfield generate and status endpoints.
+// The API has changed where it puts the video over time, so every
+// location we have seen is modelled and read through extractVideoUrl.
+
+export type GenerationStatus =
+  | 'queued'
+  | 'in_progress'
+  | 'completed'
+  | 'success'
+  | 'failed'
+  | 'nsfw'
+  // Dropped through the cancel endpoint
+  | 'cancelled';
+
+export interface GenerationResponse {
+  request_id?: string;
+  id?: string;
+  status?: GenerationStatus;
+  status_url?: string;
+  // Documented location
+  video?: { url?: string };
+  // Older / alternative locations
+  output?: string | string[];
+  url?: string;
+  error?: string;
+}
+
+// A single validation issue as reported in a 422 `detail` array
+export interface ValidationIssue {
+  loc?: (string | number)[];
+  msg: string;
+  type?: string;
+}
+
+export interface ApiErrorBody {
+  detail?: string | ValidationIssue[] | Record<string, unknown>;
+  message?: string;
+}
+
+export const extractVideoUrl = (response: GenerationResponse | null | undefined): string | null => {
+  if (!response) return null;
+  if (response.video?.url) return response.video.url;
+  if (Array.isArray(response.output)) return response.output[0] ?? null;
+  return response.output || response.url || null;
+};
+
+export const isSuccessStatus = (status: GenerationStatus | undefined) =>
+  status === 'completed' || status === 'success';
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ChevronDown, SlidersHorizontal, Shuffle, RotateCcw, LayoutTemplate } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { MotionPicker } from './MotionPicker';
+import { PromptBuilder } from './PromptBuilder';
+import type { MotionLibraryStatus } from '../hooks/useMotionLibrary';
+import {
+  DEFAULT_GENERATION_SETTINGS,
+  MAX_SEED,
+  randomSeed,
+  type GenerationSettings,
+} from '../lib/generationSettings';
+
+interface AdvancedOptionsProps {
+  settings: GenerationSettings;
+  onChange: (settings: GenerationSettings) => void;
+  previewImage?: string | null;
+  motionLibraryStatus?: MotionLibraryStatus;
+  disabled?: boolean;
+}
+
+export const AdvancedOptions: React.FC<AdvancedOptionsProps> = ({
+  settings,
+  onChange,
+  previewImage,
+  motionLibraryStatus,
+  disabled = false
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isBuilderOpen, setIsBuilderOpen] = useState(false);
+
+  const update = (patch: Partial<GenerationSettings>) => onChange({ ...settings, ...patch });
+
+  const handleSeedInput = (value: string) => {
+    const parsed = parseInt(value, 10);
+    if (Number.isNaN(parsed)) return;
+    update({ seed: Math.min(MAX_SEED, Math.max(1, parsed)) });
+  };
+
+  return (
+    <div className="max-w-xl mx-auto w-full bg-[#FDF6E3] border border-[#E6DCC8] rounded-xl">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-4 py-3 text-sm font-medium text-[#8B5E3C] hover:text-[#6F4B30] transition-colors"
+      >
+        <span className="flex items-center gap-2">
+          <SlidersHorizontal className="w-4 h-4" />
+          Advanced
+        </span>
+        <ChevronDown className={cn('w-4 h-4 transition-transform', isOpen && 'rotate-180')} />
+      </button>
+
+      <AnimatePresence initial={false}>
+        {isOpen && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="overflow-hidden"
+          >
+            <fieldset disabled={disabled} className="px-4 pb-4 space-y-4 disabled:opacity-60">
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <label className="text-sm font-medium text-[#4A4A4A]">Prompt</label>
+                  <div className="flex items-center gap-3">
+                    <button
+                      onClick={() => setIsBuilderOpen(!isBuilderOpen)}
+                      className={cn(
+                        'text-xs flex items-center gap-1 hover:text-[#6F4B30]',
+                        isBuilderOpen ? 'text-[#8B5E3C]' : 'text-[#8B8B8B]'
+                      )}
+                      title="Build the prompt from a scene template"
+                    >
+                      <LayoutTemplate className="w-3 h-3" />
+                      Templates
+                    </button>
+                    <button
+                      onClick={() => update({ prompt: DEFAULT_GENERATION_SETTINGS.prompt })}
+                      className="text-xs text-[#8B8B8B] hover:text-[#6F4B30] flex items-center gap-1"
+                      title="Reset to default prompt"
+                    >
+                      <RotateCcw className="w-3 h-3" />
+                      Reset
+                    </button>
+                  </div>
+                </div>
+                {isBuilderOpen && <PromptBuilder onCompose={(prompt) => update({ prompt })} />}
+                <textarea
+                  value={settings.prompt}
+                  onChange={(e) => update({ prompt: e.target.value })}
+                  rows={3}
+                  className="w-full px-3 py-2 bg-white border border-[#D4C5A9] rounded-md focus:outline-none focus:ring-2 focus:ring-[#8B5E3C]/20 focus:border-[#8B5E3C] transition-all text-sm resize-none"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-[#4A4A4A] block">Motion</label>
+                <MotionPicker
+                  selected={settings.motions}
+                  onChange={(motions) => update({ motions })}
+                  previewImage={previewImage}
+                  libraryStatus={motionLibraryStatus}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-[#4A4A4A] block">Seed</label>
+                <div className="flex items-center gap-2">
+                  <div className="bg-[#F4EBD9] p-1 rounded-lg border border-[#E6DCC8] flex gap-1">
+                    {(['random', 'fixed'] as const).map((mode) => (
+                      <button
+                        key={mode}
+                        onClick={() => update({ seedMode: mode })}
+                        className={cn(
+                          'px-3 py-1 rounded-md text-xs font-medium transition-all capitalize',
+                          settings.seedMode === mode
+                            ? 'bg-white text-[#8B5E3C] shadow-sm'
+                            : 'text-[#8B8B8B] hover:text-[#6F4B30]'
+                        )}
+                      >
+                        {mode}
+                      </button>
+                    ))}
+                  </div>
+                  {settings.seedMode === 'fixed' && (
+                    <>
+                      <input
+                        type="number"
+                        min={1}
+                        max={MAX_SEED}
+                        value={settings.seed}
+                        onChange={(e) => handleSeedInput(e.target.value)}
+                        className="w-32 px-3 py-1.5 bg-white border border-[#D4C5A9] rounded-md focus:outline-none focus:ring-2 focus:ring-[#8B5E3C]/20 focus:border-[#8B5E3C] transition-all text-sm"
+                      />
+                      <button
+                        onClick={() => update({ seed: randomSeed() })}
+                        className="p-1.5 text-[#8B8B8B] hover:text-[#6F4B30] transition-colors"
+                        title="Roll a new seed"
+                      >
+                        <Shuffle className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                </div>
+                <p className="text-xs text-[#8B8B8B]">
+                  {settings.seedMode === 'random'
+                    ? 'A new seed is picked for every run, so each result is different.'
+                    : 'The same seed and settings reproduce the same result.'}
+                </p>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-[#4A4A4A] cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings.enhancePrompt}
+                  onChange={(e) => update({ enhancePrompt: e.target.checked })}
+                  className="accent-[#8B5E3C]"
+                />
+                Enhance prompt automatically
+              </label>
+            </fieldset>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
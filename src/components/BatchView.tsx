@@ -0,0 +1,279 @@
+import React, { useState } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Upload, Loader2, RotateCw, X, CheckCircle2, AlertCircle, Clock, Layers } from 'lucide-react';
+import { Button } from './ui/Button';
+import { cn } from '../lib/utils';
+import { prepareImage, MAX_SOURCE_BYTES } from '../lib/imagePreparation';
+import type { VideoProvider } from '../api/providers';
+import type { GenerationSettings } from '../lib/generationSettings';
+import { confirmWithinBudget } from '../lib/usageLedger';
+import type { QueueItem } from '../lib/jobQueue';
+import { useBatchQueue } from '../hooks/useBatchQueue';
+
+interface BatchViewProps {
+  apiKey: string;
+  apiSecret: string;
+  provider: VideoProvider;
+  canGenerate: boolean;
+  settings: GenerationSettings;
+  onRequireKeys: () => void;
+}
+
+const MAX_CONCURRENCY = 4;
+
+const STATUS_STYLES: Record<QueueItem['status'], string> = {
+  queued: 'bg-[#F4EBD9] text-[#8B5E3C]',
+  running: 'bg-amber-50 text-amber-700',
+  completed: 'bg-green-50 text-green-700',
+  failed: 'bg-red-50 text-red-600',
+  cancelled: 'bg-gray-100 text-gray-500',
+};
+
+const StatusIcon: React.FC<{ status: QueueItem['status'] }> = ({ status }) => {
+  switch (status) {
+    case 'running':
+      return <Loader2 className="w-3 h-3 animate-spin" />;
+    case 'completed':
+      return <CheckCircle2 className="w-3 h-3" />;
+    case 'failed':
+      return <AlertCircle className="w-3 h-3" />;
+    default:
+      return <Clock className="w-3 h-3" />;
+  }
+};
+
+export const BatchView: React.FC<BatchViewProps> = ({
+  apiKey,
+  apiSecret,
+  provider,
+  canGenerate,
+  settings,
+  onRequireKeys
+}) => {
+  const [urlsText, setUrlsText] = useState('');
+  const [concurrency, setConcurrency] = useState(2);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { items, add, retry, remove, clearFinished } = useBatchQueue({
+    apiKey,
+    apiSecret,
+    provider,
+    settings,
+    concurrency,
+  });
+
+  const ensureKeys = () => {
+    if (canGenerate) return true;
+    setError('Please configure your API keys to continue.');
+    onRequireKeys();
+    return false;
+  };
+
+  // Warns or blocks when the jobs would push spending past the budget cap
+  const handleRetry = async (item: QueueItem) => {
+    if (!(await confirmWithinBudget(provider.id, [item.settings ?? settings], setError))) return;
+    retry(item.id);
+  };
+
+  const handleAddUrls = async () => {
+    if (!ensureKeys()) return;
+    const lines = urlsText.split(/\s+/).map((line) => line.trim()).filter(Boolean);
+    const valid = lines.filter((line) => /^https?:\/\/.+/.test(line));
+
+    if (valid.length < lines.length) {
+      setError(`Skipped ${lines.length - valid.length} line(s) that are not http(s) URLs.`);
+    } else {
+      setError(null);
+    }
+    if (valid.length === 0) return;
+    if (!(await confirmWithinBudget(provider.id, valid.map(() => settings), setError))) return;
+
+    add(valid.map((url) => ({ label: url.split('/').pop() || url, sourceImage: url })));
+    setUrlsText('');
+  };
+
+  const onDrop = async (acceptedFiles: File[]) => {
+    if (!ensureKeys() || acceptedFiles.length === 0) return;
+    if (!(await confirmWithinBudget(provider.id, acceptedFiles.map(() => settings), setError))) return;
+    setIsPreparing(true);
+    setError(null);
+
+    const failed: string[] = [];
+    // One at a time - decoding several large photos at once can exhaust memory
+    for (const file of acceptedFiles) {
+      try {
+        const prepared = await prepareImage(file);
+        add([{ label: file.name, sourceImage: prepared.dataUrl }]);
+      } catch (err) {
+        console.error(err);
+        failed.push(file.name);
+      }
+    }
+
+    if (failed.length > 0) setError(`Could not process: ${failed.join(', ')}`);
+    setIsPreparing(false);
+  };
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: {
+      'image/jpeg': [],
+      'image/png': [],
+      'image/webp': [],
+      'image/heic': ['.heic'],
+      'image/heif': ['.heif'],
+    },
+    maxSize: MAX_SOURCE_BYTES,
+    disabled: isPreparing,
+  });
+
+  const completed = items.filter((item) => item.status === 'completed' && item.videoUrl);
+  const activeCount = items.filter((item) => item.status === 'queued' || item.status === 'running').length;
+
+  return (
+    <div className="space-y-8">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div
+          {...getRootProps()}
+          className={cn(
+            'border-2 border-dashed rounded-xl p-6 text-center cursor-pointer transition-all flex flex-col items-center justify-center gap-2',
+            isDragActive ? 'border-[#8B5E3C] bg-[#F4EBD9]' : 'border-[#D4C5A9] hover:border-[#8B5E3C] hover:bg-[#F9F3E5]',
+            isPreparing && 'cursor-wait opacity-75'
+          )}
+        >
+          <input {...getInputProps()} />
+          {isPreparing ? (
+            <Loader2 className="w-6 h-6 text-[#8B5E3C] animate-spin" />
+          ) : (
+            <Upload className="w-6 h-6 text-[#8B5E3C]" />
+          )}
+          <p className="text-sm font-medium text-[#2C2C2C]">
+            {isPreparing ? 'Preparing photos...' : 'Drop a stack of photos'}
+          </p>
+          <p className="text-xs text-[#8B8B8B]">JPG, PNG, WebP or HEIC</p>
+        </div>
+
+        <div className="border-2 border-dashed border-[#D4C5A9] rounded-xl p-4 flex flex-col gap-2">
+          <textarea
+            value={urlsText}
+            onChange={(e) => setUrlsText(e.target.value)}
+            placeholder={'https://example.com/photo-1.jpg\nhttps://example.com/photo-2.jpg'}
+            rows={4}
+            className="w-full px-3 py-2 bg-white border border-[#D4C5A9] rounded-md focus:outline-none focus:ring-2 focus:ring-[#8B5E3C]/20 focus:border-[#8B5E3C] transition-all text-sm resize-none"
+          />
+          <Button variant="vintage" size="sm" onClick={handleAddUrls} disabled={!urlsText.trim()}>
+            Add URLs
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 text-red-600 rounded-lg text-sm text-center border border-red-100 flex items-center justify-center gap-2">
+          <AlertCircle className="w-4 h-4" />
+          {error}
+        </div>
+      )}
+
+      {items.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-[#6B6B6B] flex items-center gap-2">
+              <Layers className="w-4 h-4 text-[#8B5E3C]" />
+              {completed.length} of {items.length} done
+              {activeCount > 0 && ` - ${activeCount} in progress`}
+            </span>
+            <div className="flex items-center gap-3">
+              <label className="text-[#6B6B6B] flex items-center gap-2">
+                Parallel jobs
+                <select
+                  value={concurrency}
+                  onChange={(e) => setConcurrency(Number(e.target.value))}
+                  className="bg-white border border-[#D4C5A9] rounded-md px-2 py-1 text-sm"
+                >
+                  {Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1).map((n) => (
+                    <option key={n} value={n}>
+                      {n}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <Button variant="ghost" size="sm" onClick={clearFinished}>
+                Clear finished
+              </Button>
+            </div>
+          </div>
+
+          <ul className="divide-y divide-[#E6DCC8] border border-[#E6DCC8] rounded-xl bg-white overflow-hidden">
+            {items.map((item) => (
+              <li key={item.id} className="flex items-center gap-3 p-3">
+                <img
+                  src={item.sourceImage}
+                  alt=""
+                  className="w-12 h-12 rounded object-cover bg-[#F4EBD9] shrink-0"
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm text-[#2C2C2C] truncate">{item.label}</div>
+                  <div className="text-xs text-[#8B8B8B] truncate">
+                    {item.error || item.progress || (item.attempts > 1 ? `Attempt ${item.attempts}` : '')}
+                  </div>
+                </div>
+                <span
+                  className={cn(
+                    'text-xs px-2 py-0.5 rounded-full flex items-center gap-1 capitalize',
+                    STATUS_STYLES[item.status]
+                  )}
+                >
+                  <StatusIcon status={item.status} />
+                  {item.status}
+                </span>
+                {(item.status === 'failed' || item.status === 'cancelled') && (
+                  <button
+                    onClick={() => handleRetry(item)}
+                    className="p-1 text-[#8B8B8B] hover:text-[#6F4B30]"
+                    title="Retry"
+                  >
+                    <RotateCw className="w-4 h-4" />
+                  </button>
+                )}
+                <button
+                  onClick={() => remove(item.id)}
+                  className="p-1 text-[#8B8B8B] hover:text-red-500"
+                  title={item.status === 'running' ? 'Cancel and remove' : 'Remove'}
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <AnimatePresence>
+        {completed.length > 0 && (
+          <motion.section
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            className="pt-8 border-t border-[#E6DCC8]"
+          >
+            <h3 className="text-2xl font-serif text-[#2C2C2C] mb-6 text-center">Your Living Memories</h3>
+            <div className="grid gap-4 sm:grid-cols-2">
+              {completed.map((item) => (
+                <motion.div
+                  key={item.id}
+                  layout
+                  initial={{ opacity: 0, scale: 0.95 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  className="bg-black rounded-xl overflow-hidden shadow-lg border-[6px] border-white"
+                >
+                  <video src={item.videoUrl} controls autoPlay muted loop className="w-full h-auto" />
+                </motion.div>
+              ))}
+            </div>
+          </motion.section>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
@@ -0,0 +1,263 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  Play,
+  Pause,
+  StepBack,
+  StepForward,
+  Repeat,
+  Columns2,
+  ToggleLeft,
+  ChevronsLeftRight,
+} from 'lucide-react';
+import { cn } from '../lib/utils';
+
+interface ComparisonViewerProps {
+  // The photo the clip was generated from
+  imageSrc: string;
+  videoSrc: string;
+}
+
+type CompareMode = 'split' | 'toggle';
+
+const SPEEDS = [0.25, 0.5, 1, 1.5, 2];
+// The API does not report a frame rate; generated clips are close to 24fps
+const FRAME_DURATION = 1 / 24;
+
+export const ComparisonViewer: React.FC<ComparisonViewerProps> = ({ imageSrc, videoSrc }) => {
+  const [mode, setMode] = useState<CompareMode>('split');
+  // Percentage of the width showing the original, from the left
+  const [split, setSplit] = useState(50);
+  const [showOriginal, setShowOriginal] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const [boomerang, setBoomerang] = useState(false);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const isDraggingRef = useRef(false);
+  const reverseFrameRef = useRef<number | null>(null);
+
+  const stopReverse = () => {
+    if (reverseFrameRef.current !== null) cancelAnimationFrame(reverseFrameRef.current);
+    reverseFrameRef.current = null;
+  };
+
+  // Browsers can't play backwards, so the reverse leg of a boomerang steps
+  // currentTime down on every animation frame
+  const playReverse = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    stopReverse();
+    let last = performance.now();
+    const tick = (now: number) => {
+      const next = video.currentTime - ((now - last) / 1000) * video.playbackRate;
+      last = now;
+      if (next <= 0) {
+        video.currentTime = 0;
+        reverseFrameRef.current = null;
+        video.play().catch(console.warn);
+        return;
+      }
+      video.currentTime = next;
+      reverseFrameRef.current = requestAnimationFrame(tick);
+    };
+    reverseFrameRef.current = requestAnimationFrame(tick);
+  };
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.playbackRate = speed;
+  }, [speed]);
+
+  // Turning boomerang off mid-reverse carries on forwards
+  useEffect(() => {
+    if (boomerang || reverseFrameRef.current === null) return;
+    stopReverse();
+    videoRef.current?.play().catch(console.warn);
+  }, [boomerang]);
+
+  useEffect(() => stopReverse, []);
+
+  // A new clip starts playing from the beginning
+  useEffect(() => {
+    stopReverse();
+    setIsPlaying(true);
+  }, [videoSrc]);
+
+  const togglePlay = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (isPlaying) {
+      stopReverse();
+      video.pause();
+      setIsPlaying(false);
+    } else {
+      video.play().catch(console.warn);
+      setIsPlaying(true);
+    }
+  };
+
+  const stepFrame = (direction: 1 | -1) => {
+    const video = videoRef.current;
+    if (!video) return;
+    stopReverse();
+    video.pause();
+    setIsPlaying(false);
+    video.currentTime = Math.min(video.duration || 0, Math.max(0, video.currentTime + direction * FRAME_DURATION));
+  };
+
+  const handleEnded = () => {
+    if (boomerang && isPlaying) playReverse();
+  };
+
+  const updateSplit = (clientX: number) => {
+    const rect = frameRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    setSplit(Math.min(100, Math.max(0, ((clientX - rect.left) / rect.width) * 100)));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (mode !== 'split') return;
+    isDraggingRef.current = true;
+    frameRef.current?.setPointerCapture(e.pointerId);
+    updateSplit(e.clientX);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowLeft') setSplit((value) => Math.max(0, value - 5));
+    if (e.key === 'ArrowRight') setSplit((value) => Math.min(100, value + 5));
+  };
+
+  // How much of the original is uncovered, from the left edge
+  const originalWidth = mode === 'split' ? split : showOriginal ? 100 : 0;
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div
+        ref={frameRef}
+        className={cn(
+          'relative bg-black rounded-xl overflow-hidden shadow-2xl border-[8px] border-white select-none touch-none',
+          mode === 'split' && 'cursor-ew-resize'
+        )}
+        onPointerDown={handlePointerDown}
+        onPointerMove={(e) => isDraggingRef.current && updateSplit(e.clientX)}
+        onPointerUp={() => (isDraggingRef.current = false)}
+        onPointerCancel={() => (isDraggingRef.current = false)}
+      >
+        <video
+          ref={videoRef}
+          src={videoSrc}
+          autoPlay
+          muted
+          playsInline
+          loop={!boomerang}
+          onEnded={handleEnded}
+          onPlay={() => setIsPlaying(true)}
+          className="w-full h-auto block"
+        />
+        <img
+          src={imageSrc}
+          alt="Original"
+          draggable={false}
+          className="absolute inset-0 w-full h-full object-cover pointer-events-none"
+          style={{ clipPath: `inset(0 ${100 - originalWidth}% 0 0)` }}
+        />
+
+        {mode === 'split' && (
+          <div
+            role="slider"
+            tabIndex={0}
+            aria-label="Comparison split"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(split)}
+            onKeyDown={handleKeyDown}
+            className="absolute inset-y-0 w-0.5 bg-white shadow focus:outline-none"
+            style={{ left: `${split}%` }}
+          >
+            <div className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 left-1/2 w-8 h-8 rounded-full bg-white shadow-md flex items-center justify-center text-[#8B5E3C]">
+              <ChevronsLeftRight className="w-4 h-4" />
+            </div>
+          </div>
+        )}
+
+        <span className="absolute top-2 left-2 px-2 py-0.5 rounded bg-black/50 text-white text-[10px] uppercase tracking-wide pointer-events-none">
+          {mode === 'toggle' ? (showOriginal ? 'Original' : 'Animated') : 'Original'}
+        </span>
+        {mode === 'split' && (
+          <span className="absolute top-2 right-2 px-2 py-0.5 rounded bg-black/50 text-white text-[10px] uppercase tracking-wide pointer-events-none">
+            Animated
+          </span>
+        )}
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center justify-center gap-2 text-[#6B6B6B]">
+        <div className="bg-[#F4EBD9] p-1 rounded-lg border border-[#E6DCC8] flex gap-1">
+          {([
+            { key: 'split', label: 'Split', icon: Columns2 },
+            { key: 'toggle', label: 'Toggle', icon: ToggleLeft },
+          ] as const).map(({ key, label, icon: Icon }) => (
+            <button
+              key={key}
+              onClick={() => setMode(key)}
+              className={cn(
+                'px-3 py-1 rounded-md text-xs font-medium transition-all flex items-center gap-1.5',
+                mode === key ? 'bg-white text-[#8B5E3C] shadow-sm' : 'text-[#8B8B8B] hover:text-[#6F4B30]'
+              )}
+            >
+              <Icon className="w-3.5 h-3.5" />
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {mode === 'toggle' && (
+          <button
+            onClick={() => setShowOriginal(!showOriginal)}
+            className="px-3 py-1.5 rounded-md text-xs font-medium border border-[#E6DCC8] bg-white text-[#8B5E3C] hover:bg-[#F4EBD9] transition-colors"
+          >
+            Show {showOriginal ? 'animated' : 'original'}
+          </button>
+        )}
+
+        <div className="flex items-center gap-1 bg-white border border-[#E6DCC8] rounded-lg px-1 py-0.5">
+          <button onClick={() => stepFrame(-1)} className="p-1.5 hover:text-[#6F4B30]" title="Previous frame">
+            <StepBack className="w-4 h-4" />
+          </button>
+          <button onClick={togglePlay} className="p-1.5 text-[#8B5E3C] hover:text-[#6F4B30]" title={isPlaying ? 'Pause' : 'Play'}>
+            {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          </button>
+          <button onClick={() => stepFrame(1)} className="p-1.5 hover:text-[#6F4B30]" title="Next frame">
+            <StepForward className="w-4 h-4" />
+          </button>
+        </div>
+
+        <select
+          value={speed}
+          onChange={(e) => setSpeed(Number(e.target.value))}
+          className="px-2 py-1.5 bg-white border border-[#E6DCC8] rounded-md text-xs focus:outline-none focus:ring-2 focus:ring-[#8B5E3C]/20"
+          title="Playback speed"
+        >
+          {SPEEDS.map((value) => (
+            <option key={value} value={value}>
+              {value}×
+            </option>
+          ))}
+        </select>
+
+        <button
+          onClick={() => setBoomerang(!boomerang)}
+          className={cn(
+            'px-3 py-1.5 rounded-md text-xs font-medium border transition-colors flex items-center gap-1.5',
+            boomerang
+              ? 'bg-[#8B5E3C] text-[#FDF6E3] border-[#8B5E3C]'
+              : 'bg-white text-[#6B6B6B] border-[#E6DCC8] hover:border-[#D4C5A9]'
+          )}
+          title="Play forwards then backwards"
+        >
+          <Repeat className="w-3.5 h-3.5" />
+          Boomerang
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { PlugZap, Loader2, CheckCircle2, XCircle, WifiOff, Clock, AlertCircle } from 'lucide-react';
+import { Button } from './ui/Button';
+import { cn } from '../lib/utils';
+import { isCancelledError, testConnection, type ConnectionTestResult } from '../api/higgsfield';
+
+export type ConnectionTester = (
+  apiKey: string,
+  apiSecret: string,
+  signal: AbortSignal
+) => Promise<ConnectionTestResult>;
+
+interface ConnectionTestProps {
+  apiKey: string;
+  apiSecret: string;
+  disabled?: boolean;
+  // Swappable so the probe can target a local stand-in endpoint
+  tester?: ConnectionTester;
+}
+
+const defaultTester: ConnectionTester = (apiKey, apiSecret, signal) =>
+  testConnection({ apiKey, apiSecret, signal });
+
+const describeResult = (result: ConnectionTestResult) => {
+  switch (result.status) {
+    case 'ok':
+      return { icon: CheckCircle2, className: 'text-green-700', message: 'Connected - these keys work.' };
+    case 'invalid_credentials':
+      return { icon: XCircle, className: 'text-red-600', message: 'Higgsfield rejected these keys.' };
+    case 'rate_limited': {
+      const wait = result.retryAfterMs ? ` Try again in about ${Math.ceil(result.retryAfterMs / 1000)}s.` : '';
+      return { icon: Clock, className: 'text-amber-700', message: `Rate limited by the API.${wait}` };
+    }
+    case 'network':
+      return {
+        icon: WifiOff,
+        className: 'text-amber-700',
+        message: 'Could not reach Higgsfield. Check your connection and try again.',
+      };
+    case 'error':
+      return { icon: AlertCircle, className: 'text-red-600', message: `The API returned an error: ${result.message}` };
+  }
+};
+
+export const ConnectionTest: React.FC<ConnectionTestProps> = ({
+  apiKey,
+  apiSecret,
+  disabled,
+  tester = defaultTester
+}) => {
+  const [isTesting, setIsTesting] = useState(false);
+  const [result, setResult] = useState<ConnectionTestResult | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // A result only describes the keys it was run with
+  useEffect(() => {
+    controllerRef.current?.abort();
+    setResult(null);
+  }, [apiKey, apiSecret]);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const runTest = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsTesting(true);
+    setResult(null);
+    try {
+      setResult(await tester(apiKey, apiSecret, controller.signal));
+    } catch (err) {
+      if (!isCancelledError(err)) {
+        console.error(err);
+        setResult({ status: 'error', message: err instanceof Error ? err.message : 'Unknown error' });
+      }
+    } finally {
+      if (controllerRef.current === controller) setIsTesting(false);
+    }
+  };
+
+  const description = result && describeResult(result);
+
+  return (
+    <div className="flex items-center gap-3">
+      <Button variant="outline" size="sm" onClick={runTest} disabled={disabled || isTesting}>
+        {isTesting ? (
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+        ) : (
+          <PlugZap className="w-4 h-4 mr-2" />
+        )}
+        Test connection
+      </Button>
+      {description && (
+        <span className={cn('text-xs flex items-center gap-1.5', description.className)}>
+          <description.icon className="w-3.5 h-3.5 shrink-0" />
+          {description.message}
+        </span>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,277 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ChevronDown, Clapperboard, Loader2, Download, StopCircle, AlertCircle } from 'lucide-react';
+import { Button } from './ui/Button';
+import { cn } from '../lib/utils';
+import { isCancelledError } from '../api/higgsfield';
+import type { GenerationSettings } from '../lib/generationSettings';
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  EXPORT_FPS,
+  EXPORT_WIDTHS,
+  MIN_TRIM_SECONDS,
+  buildExportFilename,
+  exportClip,
+  saveBlob,
+  type ExportFormat,
+  type ExportOptions,
+  type ExportProgress,
+} from '../lib/videoExport';
+
+interface ExportPanelProps {
+  videoUrl: string;
+  // Used for the exported file's name
+  settings: GenerationSettings;
+}
+
+const LOOP_OPTIONS = [
+  { value: 0, label: 'Forever' },
+  { value: 1, label: 'Once' },
+  { value: 2, label: '2×' },
+  { value: 3, label: '3×' },
+  { value: 5, label: '5×' },
+];
+
+const STAGE_LABELS: Record<ExportProgress['stage'], string> = {
+  loading: 'Fetching clip',
+  rendering: 'Recording',
+  encoding: 'Encoding frames',
+};
+
+const selectClassName =
+  'w-full px-2 py-1.5 bg-white border border-[#D4C5A9] rounded-md focus:outline-none focus:ring-2 focus:ring-[#8B5E3C]/20 focus:border-[#8B5E3C] text-sm';
+
+export const ExportPanel: React.FC<ExportPanelProps> = ({ videoUrl, settings }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [duration, setDuration] = useState<number | null>(null);
+  const [options, setOptions] = useState<ExportOptions>({ ...DEFAULT_EXPORT_OPTIONS, end: 0 });
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // A new clip starts from the full length again
+  useEffect(() => {
+    setDuration(null);
+    setError(null);
+    controllerRef.current?.abort();
+  }, [videoUrl]);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const update = (patch: Partial<ExportOptions>) => setOptions((current) => ({ ...current, ...patch }));
+
+  const handleMetadata = (e: React.SyntheticEvent<HTMLVideoElement>) => {
+    const length = e.currentTarget.duration;
+    if (!Number.isFinite(length)) return;
+    setDuration(length);
+    update({ start: 0, end: length });
+  };
+
+  const setFormat = (format: ExportFormat) =>
+    // WebM has no loop flag, so "forever" makes no sense there
+    update({ format, loops: format === 'webm' && options.loops === 0 ? 1 : options.loops });
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setError(null);
+    try {
+      const blob = await exportClip(videoUrl, options, setProgress, controller.signal);
+      saveBlob(blob, buildExportFilename(settings, options.format));
+    } catch (err) {
+      if (!isCancelledError(err)) {
+        console.error(err);
+        setError(err instanceof Error && err.message ? err.message : 'Export failed.');
+      }
+    } finally {
+      if (controllerRef.current === controller) setProgress(null);
+    }
+  };
+
+  const isExporting = progress !== null;
+
+  return (
+    <div className="max-w-2xl mx-auto w-full mt-6 bg-[#FDF6E3] border border-[#E6DCC8] rounded-xl">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-4 py-3 text-sm font-medium text-[#8B5E3C] hover:text-[#6F4B30] transition-colors"
+      >
+        <span className="flex items-center gap-2">
+          <Clapperboard className="w-4 h-4" />
+          Export as GIF / WebM
+        </span>
+        <ChevronDown className={cn('w-4 h-4 transition-transform', isOpen && 'rotate-180')} />
+      </button>
+
+      <AnimatePresence initial={false}>
+        {isOpen && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="overflow-hidden"
+          >
+            {/* Only used to read the clip length for the trim sliders */}
+            <video src={videoUrl} preload="metadata" muted className="hidden" onLoadedMetadata={handleMetadata} />
+
+            <fieldset disabled={isExporting} className="px-4 pb-4 space-y-4 disabled:opacity-60">
+              <div className="flex items-center gap-3">
+                <div className="bg-[#F4EBD9] p-1 rounded-lg border border-[#E6DCC8] flex gap-1">
+                  {(['gif', 'webm'] as const).map((format) => (
+                    <button
+                      key={format}
+                      onClick={() => setFormat(format)}
+                      className={cn(
+                        'px-3 py-1 rounded-md text-xs font-medium transition-all uppercase',
+                        options.format === format
+                          ? 'bg-white text-[#8B5E3C] shadow-sm'
+                          : 'text-[#8B8B8B] hover:text-[#6F4B30]'
+                      )}
+                    >
+                      {format}
+                    </button>
+                  ))}
+                </div>
+                <span className="text-xs text-[#8B8B8B]">
+                  {options.format === 'gif'
+                    ? 'Plays anywhere, larger files, no sound.'
+                    : 'Smaller and smoother; recorded in real time.'}
+                </span>
+              </div>
+
+              {duration !== null ? (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-[#4A4A4A] block">
+                    Trim
+                    <span className="ml-2 text-xs font-normal text-[#8B8B8B] tabular-nums">
+                      {options.start.toFixed(1)}s – {options.end.toFixed(1)}s
+                    </span>
+                  </label>
+                  <input
+                    type="range"
+                    min={0}
+                    max={duration}
+                    step={0.1}
+                    value={options.start}
+                    onChange={(e) => update({ start: Math.min(Number(e.target.value), options.end - MIN_TRIM_SECONDS) })}
+                    className="w-full accent-[#8B5E3C]"
+                    aria-label="Trim start"
+                  />
+                  <input
+                    type="range"
+                    min={0}
+                    max={duration}
+                    step={0.1}
+                    value={options.end}
+                    onChange={(e) => update({ end: Math.max(Number(e.target.value), options.start + MIN_TRIM_SECONDS) })}
+                    className="w-full accent-[#8B5E3C]"
+                    aria-label="Trim end"
+                  />
+                </div>
+              ) : (
+                <p className="text-xs text-[#8B8B8B] flex items-center gap-1.5">
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                  Reading clip length…
+                </p>
+              )}
+
+              <div className="grid grid-cols-3 gap-3">
+                <label className="space-y-1 text-xs text-[#6B6B6B]">
+                  <span>Loops</span>
+                  <select
+                    value={options.loops}
+                    onChange={(e) => update({ loops: Number(e.target.value) })}
+                    className={selectClassName}
+                  >
+                    {LOOP_OPTIONS.filter((option) => options.format === 'gif' || option.value !== 0).map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="space-y-1 text-xs text-[#6B6B6B]">
+                  <span>Width</span>
+                  <select
+                    value={options.width}
+                    onChange={(e) => update({ width: Number(e.target.value) })}
+                    className={selectClassName}
+                  >
+                    {EXPORT_WIDTHS.map((width) => (
+                      <option key={width} value={width}>
+                        {width}px
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="space-y-1 text-xs text-[#6B6B6B]">
+                  <span>Frame rate</span>
+                  <select
+                    value={options.fps}
+                    onChange={(e) => update({ fps: Number(e.target.value) })}
+                    className={selectClassName}
+                  >
+                    {EXPORT_FPS.map((fps) => (
+                      <option key={fps} value={fps}>
+                        {fps} fps
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+
+              <div className="space-y-2">
+                <label className="flex items-center gap-2 text-sm text-[#4A4A4A] cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={options.polaroid}
+                    onChange={(e) => update({ polaroid: e.target.checked })}
+                    className="accent-[#8B5E3C]"
+                  />
+                  Polaroid border
+                </label>
+                {options.polaroid && (
+                  <input
+                    type="text"
+                    value={options.caption}
+                    onChange={(e) => update({ caption: e.target.value })}
+                    placeholder="Caption, e.g. Summer '86"
+                    maxLength={60}
+                    className="w-full px-3 py-1.5 bg-white border border-[#D4C5A9] rounded-md focus:outline-none focus:ring-2 focus:ring-[#8B5E3C]/20 focus:border-[#8B5E3C] transition-all text-sm font-serif italic"
+                  />
+                )}
+              </div>
+            </fieldset>
+
+            <div className="px-4 pb-4 space-y-2">
+              {error && (
+                <div className="text-xs text-red-600 flex items-center gap-1.5">
+                  <AlertCircle className="w-3.5 h-3.5" />
+                  {error}
+                </div>
+              )}
+              <div className="flex items-center justify-end gap-3">
+                {progress && (
+                  <span className="text-xs text-[#8B8B8B] tabular-nums">
+                    {STAGE_LABELS[progress.stage]}… {Math.round(progress.fraction * 100)}%
+                  </span>
+                )}
+                {isExporting ? (
+                  <Button variant="outline" size="sm" onClick={() => controllerRef.current?.abort()}>
+                    <StopCircle className="w-4 h-4 mr-2" />
+                    Cancel
+                  </Button>
+                ) : (
+                  <Button variant="vintage" size="sm" onClick={handleExport} disabled={duration === null}>
+                    <Download className="w-4 h-4 mr-2" />
+                    Export {options.format.toUpperCase()}
+                  </Button>
+                )}
+              </div>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
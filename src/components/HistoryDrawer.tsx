@@ -0,0 +1,215 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, History, Star, Trash2, Play, RotateCw, AlertCircle, HardDriveDownload, Loader2 } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { getKeepVideoFiles, setKeepVideoFiles, type HistoryEntry } from '../lib/history';
+import { offlineCacheSupported } from '../lib/offlineVideos';
+import { useHistory } from '../hooks/useHistory';
+
+interface HistoryDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onReplay: (entry: HistoryEntry) => void;
+  onRerun: (entry: HistoryEntry) => void;
+  disableRerun?: boolean;
+  // Offline, only clips saved on the device can play
+  isOnline?: boolean;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export const HistoryDrawer: React.FC<HistoryDrawerProps> = ({
+  isOpen,
+  onClose,
+  onReplay,
+  onRerun,
+  disableRerun = false,
+  isOnline = true
+}) => {
+  const { entries, isLoading, toggleFavorite, removeEntry, toggleKeptOffline } = useHistory();
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const [keepVideoFiles, setKeepVideoFilesState] = useState(getKeepVideoFiles);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const visible = favoritesOnly ? entries.filter((entry) => entry.favorite) : entries;
+
+  const handleKeepVideoFiles = (value: boolean) => {
+    setKeepVideoFiles(value);
+    setKeepVideoFilesState(value);
+  };
+
+  const handleToggleKeptOffline = async (entry: HistoryEntry) => {
+    setSavingId(entry.id);
+    setSaveError(null);
+    try {
+      await toggleKeptOffline(entry);
+    } catch (err) {
+      console.warn('Could not save video file offline:', err);
+      setSaveError('Could not save that clip - the link may have expired.');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-40 bg-black/30 backdrop-blur-sm"
+          onClick={(e) => {
+            // Close if clicking the backdrop
+            if (e.target === e.currentTarget) onClose();
+          }}
+        >
+          <motion.aside
+            initial={{ x: '100%' }}
+            animate={{ x: 0 }}
+            exit={{ x: '100%' }}
+            transition={{ type: 'tween', duration: 0.25 }}
+            className="absolute right-0 top-0 h-full w-full max-w-md bg-[#FDF6E3] border-l border-[#E6DCC8] shadow-2xl flex flex-col"
+          >
+            <div className="flex justify-between items-center p-6 border-b border-[#E6DCC8]">
+              <h2 className="text-xl font-serif font-bold text-[#2C2C2C] flex items-center gap-2">
+                <History className="w-5 h-5 text-[#8B5E3C]" />
+                Your Memories
+              </h2>
+              <button onClick={onClose} className="text-[#8B8B8B] hover:text-[#2C2C2C] transition-colors">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="px-6 py-3 border-b border-[#E6DCC8] flex flex-col gap-2 text-sm text-[#4A4A4A]">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={favoritesOnly}
+                  onChange={(e) => setFavoritesOnly(e.target.checked)}
+                  className="accent-[#8B5E3C]"
+                />
+                Favorites only
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={keepVideoFiles}
+                  onChange={(e) => handleKeepVideoFiles(e.target.checked)}
+                  className="accent-[#8B5E3C]"
+                />
+                Save new video files on this device
+              </label>
+              {saveError && (
+                <p className="text-xs text-red-600 flex items-center gap-1">
+                  <AlertCircle className="w-3 h-3 shrink-0" />
+                  {saveError}
+                </p>
+              )}
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-6 space-y-3">
+              {!isLoading && visible.length === 0 && (
+                <p className="text-sm text-[#8B8B8B] text-center italic mt-12">
+                  {favoritesOnly ? 'No favorites yet.' : 'Memories you relive will appear here.'}
+                </p>
+              )}
+
+              {visible.map((entry) => {
+                const isSaved = Boolean(entry.keptOffline || entry.videoBlob);
+                return (
+                  <div
+                    key={entry.id}
+                    className="flex gap-3 p-3 bg-white rounded-lg border border-[#E6DCC8] shadow-sm"
+                  >
+                    <img
+                      src={entry.thumbnail}
+                      alt=""
+                      className="w-20 h-20 rounded object-cover bg-[#F4EBD9] shrink-0"
+                    />
+                    <div className="flex-1 min-w-0 flex flex-col">
+                      <div className="flex items-start justify-between gap-2">
+                        <span className="text-xs text-[#8B8B8B]">{formatDate(entry.createdAt)}</span>
+                        <button
+                          onClick={() => toggleFavorite(entry)}
+                          title={entry.favorite ? 'Remove from favorites' : 'Add to favorites'}
+                        >
+                          <Star
+                            className={cn(
+                              'w-4 h-4',
+                              entry.favorite ? 'fill-amber-400 text-amber-400' : 'text-[#D4C5A9] hover:text-amber-400'
+                            )}
+                          />
+                        </button>
+                      </div>
+                      <p className="text-xs text-[#4A4A4A] line-clamp-2 mt-1">{entry.settings.prompt}</p>
+                      {entry.status === 'failed' && (
+                        <p className="text-xs text-red-600 flex items-center gap-1 mt-1 truncate">
+                          <AlertCircle className="w-3 h-3 shrink-0" />
+                          {entry.error || 'Generation failed'}
+                        </p>
+                      )}
+                      <div className="flex items-center gap-3 mt-auto pt-2 text-xs">
+                        {entry.status === 'completed' && (
+                          <button
+                            onClick={() => onReplay(entry)}
+                            disabled={!isOnline && !isSaved}
+                            title={!isOnline && !isSaved ? 'Not saved on this device' : undefined}
+                            className="flex items-center gap-1 text-[#8B5E3C] hover:text-[#6F4B30] disabled:opacity-50"
+                          >
+                            <Play className="w-3 h-3" />
+                            Play
+                          </button>
+                        )}
+                        <button
+                          onClick={() => onRerun(entry)}
+                          disabled={disableRerun}
+                          className="flex items-center gap-1 text-[#8B5E3C] hover:text-[#6F4B30] disabled:opacity-50"
+                        >
+                          <RotateCw className="w-3 h-3" />
+                          Re-run
+                        </button>
+                        {entry.videoUrl && offlineCacheSupported() && (
+                          <button
+                            onClick={() => handleToggleKeptOffline(entry)}
+                            disabled={savingId === entry.id || (!isOnline && !isSaved)}
+                            className={cn(
+                              'flex items-center gap-1 disabled:opacity-50',
+                              isSaved ? 'text-[#8B5E3C] hover:text-red-500' : 'text-[#8B8B8B] hover:text-[#6F4B30]'
+                            )}
+                            title={isSaved ? 'Saved on this device - click to remove the copy' : 'Keep a copy on this device'}
+                          >
+                            {savingId === entry.id ? (
+                              <Loader2 className="w-3 h-3 animate-spin" />
+                            ) : (
+                              <HardDriveDownload className="w-3 h-3" />
+                            )}
+                            {isSaved ? 'Saved' : 'Keep offline'}
+                          </button>
+                        )}
+                        <button
+                          onClick={() => removeEntry(entry)}
+                          className="ml-auto text-[#8B8B8B] hover:text-red-500"
+                          title="Delete"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </motion.aside>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -0,0 +1,283 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { RotateCcw, RotateCw, ScanLine, Undo2, Check, Loader2, AlertCircle } from 'lucide-react';
+import { Button } from './ui/Button';
+import { cn } from '../lib/utils';
+import {
+  ASPECT_RATIOS,
+  DEFAULT_EDIT,
+  FULL_CROP,
+  MAX_STRAIGHTEN,
+  applyEdit,
+  clampCrop,
+  detectBorders,
+  editedBaseSize,
+  fitCropToRatio,
+  isIdentityEdit,
+  loadImage,
+  moveCrop,
+  renderBase,
+  resizeCrop,
+  rotateQuarter,
+  type AspectRatioKey,
+  type CropHandle,
+  type ImageEdit,
+} from '../lib/imageTransform';
+
+interface ImageEditorProps {
+  // The unedited image; edits are always re-applied to it, never stacked
+  src: string;
+  initialEdit?: ImageEdit;
+  onApply: (dataUrl: string, edit: ImageEdit) => void;
+  onCancel: () => void;
+}
+
+// Longest side of the on-screen preview canvas
+const DISPLAY_SIZE = 520;
+
+const HANDLES: { handle: CropHandle; className: string }[] = [
+  { handle: 'nw', className: '-left-1.5 -top-1.5 cursor-nwse-resize' },
+  { handle: 'ne', className: '-right-1.5 -top-1.5 cursor-nesw-resize' },
+  { handle: 'sw', className: '-left-1.5 -bottom-1.5 cursor-nesw-resize' },
+  { handle: 'se', className: '-right-1.5 -bottom-1.5 cursor-nwse-resize' },
+];
+
+interface DragState {
+  mode: CropHandle | 'move';
+  startX: number;
+  startY: number;
+  startCrop: ImageEdit['crop'];
+}
+
+export const ImageEditor: React.FC<ImageEditorProps> = ({ src, initialEdit = DEFAULT_EDIT, onApply, onCancel }) => {
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [edit, setEdit] = useState<ImageEdit>(initialEdit);
+  const [ratioKey, setRatioKey] = useState<AspectRatioKey>('free');
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(src)
+      .then((img) => !cancelled && setImage(img))
+      .catch((err) => {
+        if (cancelled) return;
+        setError(err instanceof Error && err.message ? err.message : 'Could not load the image for editing.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [src]);
+
+  const baseSize = image ? editedBaseSize(image, edit) : null;
+  const imageAspect = baseSize ? baseSize.width / baseSize.height : 1;
+  const ratio = ASPECT_RATIOS.find((option) => option.key === ratioKey)?.ratio ?? null;
+
+  // Redraw the rotated/straightened preview; the crop is an overlay on top
+  const { rotation, straighten } = edit;
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!image || !canvas) return;
+    const base = { rotation, straighten, crop: FULL_CROP };
+    const { width, height } = editedBaseSize(image, base);
+    const rendered = renderBase(image, base, Math.min(1, DISPLAY_SIZE / Math.max(width, height)));
+    canvas.width = rendered.width;
+    canvas.height = rendered.height;
+    canvas.getContext('2d')?.drawImage(rendered, 0, 0);
+  }, [image, rotation, straighten]);
+
+  // Rotating changes the image shape, so the old crop no longer means anything
+  const resetCrop = (next: Omit<ImageEdit, 'crop'>, nextRatio = ratio) => {
+    if (!image) return;
+    const size = editedBaseSize(image, { ...next, crop: FULL_CROP });
+    const crop = nextRatio ? fitCropToRatio(FULL_CROP, nextRatio, size.width / size.height) : FULL_CROP;
+    setEdit({ ...next, crop });
+  };
+
+  const rotate = (direction: 1 | -1) =>
+    resetCrop({ rotation: rotateQuarter(edit.rotation, direction), straighten: edit.straighten });
+
+  // Straightening scales the image evenly, so the crop keeps its place
+  const straightenTo = (straighten: number) =>
+    setEdit((current) => ({ ...current, straighten, crop: clampCrop(current.crop) }));
+
+  const selectRatio = (key: AspectRatioKey) => {
+    setRatioKey(key);
+    const nextRatio = ASPECT_RATIOS.find((option) => option.key === key)?.ratio ?? null;
+    if (nextRatio) setEdit({ ...edit, crop: fitCropToRatio(edit.crop, nextRatio, imageAspect) });
+  };
+
+  const autoTrim = () => {
+    if (!image) return;
+    try {
+      const crop = detectBorders(renderBase(image, { ...edit, crop: FULL_CROP }, 0.5));
+      setEdit({ ...edit, crop: ratio ? fitCropToRatio(crop, ratio, imageAspect) : crop });
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError("Borders can't be detected on images from this host.");
+    }
+  };
+
+  const startDrag = (mode: DragState['mode']) => (e: React.PointerEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    frameRef.current?.setPointerCapture(e.pointerId);
+    dragRef.current = { mode, startX: e.clientX, startY: e.clientY, startCrop: edit.crop };
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const rect = frameRef.current?.getBoundingClientRect();
+    if (!drag || !rect) return;
+    const dx = (e.clientX - drag.startX) / rect.width;
+    const dy = (e.clientY - drag.startY) / rect.height;
+    const crop =
+      drag.mode === 'move'
+        ? moveCrop(drag.startCrop, dx, dy)
+        : resizeCrop(drag.startCrop, drag.mode, dx, dy, ratio, imageAspect);
+    setEdit((current) => ({ ...current, crop }));
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  const handleApply = async () => {
+    if (isIdentityEdit(edit)) {
+      onApply(src, edit);
+      return;
+    }
+    setIsApplying(true);
+    setError(null);
+    try {
+      onApply(await applyEdit(src, edit), edit);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error && err.message ? err.message : 'Could not apply the edits.');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const { crop } = edit;
+
+  return (
+    <div className="flex flex-col items-center gap-4 w-full">
+      <div className="relative max-w-full min-h-[200px] flex items-center justify-center">
+        {!image && !error && <Loader2 className="w-6 h-6 text-[#8B5E3C] animate-spin" />}
+        <div
+          ref={frameRef}
+          className={cn('relative overflow-hidden touch-none select-none', !image && 'hidden')}
+          onPointerMove={onPointerMove}
+          onPointerUp={endDrag}
+          onPointerCancel={endDrag}
+        >
+          <canvas ref={canvasRef} className="block max-w-full h-auto max-h-[420px]" />
+          <div
+            className="absolute border-2 border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.45)] cursor-move"
+            style={{
+              left: `${crop.x * 100}%`,
+              top: `${crop.y * 100}%`,
+              width: `${crop.width * 100}%`,
+              height: `${crop.height * 100}%`,
+            }}
+            onPointerDown={startDrag('move')}
+          >
+            {/* Rule-of-thirds guides */}
+            <div className="absolute inset-0 grid grid-cols-3 grid-rows-3 pointer-events-none">
+              {Array.from({ length: 9 }, (_, i) => (
+                <div key={i} className="border border-white/25" />
+              ))}
+            </div>
+            {HANDLES.map(({ handle, className }) => (
+              <div
+                key={handle}
+                className={cn('absolute w-3 h-3 bg-white rounded-sm shadow', className)}
+                onPointerDown={startDrag(handle)}
+              />
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="w-full max-w-md space-y-3">
+        <div className="flex items-center justify-center gap-2">
+          <Button variant="ghost" size="sm" onClick={() => rotate(-1)} title="Rotate left">
+            <RotateCcw className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => rotate(1)} title="Rotate right">
+            <RotateCw className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={autoTrim} disabled={!image} title="Trim borders">
+            <ScanLine className="w-4 h-4 mr-1.5" />
+            Auto-trim
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setRatioKey('free');
+              setEdit(DEFAULT_EDIT);
+            }}
+            title="Undo all edits"
+          >
+            <Undo2 className="w-4 h-4 mr-1.5" />
+            Reset
+          </Button>
+        </div>
+
+        <label className="flex items-center gap-3 text-xs text-[#6B6B6B]">
+          Straighten
+          <input
+            type="range"
+            min={-MAX_STRAIGHTEN}
+            max={MAX_STRAIGHTEN}
+            step={0.5}
+            value={edit.straighten}
+            onChange={(e) => straightenTo(Number(e.target.value))}
+            className="flex-1 accent-[#8B5E3C]"
+          />
+          <span className="w-10 text-right tabular-nums">{edit.straighten.toFixed(1)}°</span>
+        </label>
+
+        <div className="flex items-center justify-center gap-1.5">
+          {ASPECT_RATIOS.map((option) => (
+            <button
+              key={option.key}
+              onClick={() => selectRatio(option.key)}
+              className={cn(
+                'px-2.5 py-1 rounded-full text-xs border transition-colors',
+                ratioKey === option.key
+                  ? 'bg-[#8B5E3C] text-[#FDF6E3] border-[#8B5E3C]'
+                  : 'bg-white text-[#6B6B6B] border-[#E6DCC8] hover:border-[#D4C5A9]'
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <div className="text-xs text-red-600 flex items-center justify-center gap-1.5">
+            <AlertCircle className="w-3.5 h-3.5" />
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 pt-1">
+          <Button variant="ghost" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button variant="vintage" size="sm" onClick={handleApply} disabled={!image || isApplying}>
+            {isApplying ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Check className="w-4 h-4 mr-2" />}
+            Apply
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
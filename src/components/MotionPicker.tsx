@@ -0,0 +1,128 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Check } from 'lucide-react';
+import { cn } from '../lib/utils';
+import {
+  MOTION_PRESETS,
+  MIN_MOTION_STRENGTH,
+  MAX_MOTION_STRENGTH,
+  isMotionAvailable,
+  type MotionPreset,
+  type SelectedMotion,
+} from '../lib/motionCatalog';
+import type { MotionLibraryStatus } from '../hooks/useMotionLibrary';
+
+interface MotionPickerProps {
+  selected: SelectedMotion[];
+  onChange: (selected: SelectedMotion[]) => void;
+  previewImage?: string | null;
+  libraryStatus?: MotionLibraryStatus;
+}
+
+const MotionThumbnail: React.FC<{ preset: MotionPreset; image?: string | null }> = ({ preset, image }) => {
+  const { duration, ...keyframes } = preset.preview;
+  return (
+    <div className="w-14 h-14 shrink-0 rounded-md overflow-hidden bg-[#F4EBD9] border border-[#E6DCC8] [perspective:200px]">
+      {image && (
+        <motion.img
+          src={image}
+          alt=""
+          className="w-full h-full object-cover"
+          animate={keyframes}
+          transition={{ duration, repeat: Infinity, repeatType: 'mirror', ease: 'easeInOut' }}
+        />
+      )}
+    </div>
+  );
+};
+
+const LIBRARY_NOTES: Partial<Record<MotionLibraryStatus, string>> = {
+  loading: 'Loading the motion library…',
+  unavailable: 'The motion library could not be loaded, so only the default motion can be used.',
+};
+
+export const MotionPicker: React.FC<MotionPickerProps> = ({
+  selected,
+  onChange,
+  previewImage,
+  libraryStatus = 'ready'
+}) => {
+  const findSelected = (key: string) => selected.find((item) => item.key === key);
+
+  const toggle = (preset: MotionPreset) => {
+    if (findSelected(preset.key)) {
+      // Keep at least one motion - the API needs something to animate with
+      if (selected.length === 1) return;
+      onChange(selected.filter((item) => item.key !== preset.key));
+    } else {
+      onChange([...selected, { key: preset.key, strength: preset.defaultStrength }]);
+    }
+  };
+
+  const setStrength = (key: string, strength: number) =>
+    onChange(selected.map((item) => (item.key === key ? { ...item, strength } : item)));
+
+  return (
+    <div className="space-y-2">
+      {LIBRARY_NOTES[libraryStatus] && (
+        <p className="text-xs text-[#8B8B8B]">{LIBRARY_NOTES[libraryStatus]}</p>
+      )}
+      {MOTION_PRESETS.map((preset) => {
+        const current = findSelected(preset.key);
+        // Selected presets stay clickable so they can still be removed
+        const available = isMotionAvailable(preset.key);
+        return (
+          <div
+            key={preset.key}
+            className={cn(
+              'rounded-lg border p-2 transition-colors',
+              current ? 'border-[#8B5E3C] bg-white' : 'border-[#E6DCC8] hover:border-[#D4C5A9]',
+              !available && 'opacity-60'
+            )}
+          >
+            <button
+              onClick={() => toggle(preset)}
+              disabled={!available && !current}
+              className="w-full flex items-center gap-3 text-left disabled:cursor-not-allowed"
+            >
+              <MotionThumbnail preset={preset} image={previewImage} />
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-medium text-[#2C2C2C]">{preset.name}</div>
+                <div className="text-xs text-[#8B8B8B]">
+                  {available || libraryStatus !== 'ready'
+                    ? preset.description
+                    : 'Not in the motion library for this account.'}
+                </div>
+              </div>
+              <div
+                className={cn(
+                  'w-5 h-5 rounded-full border flex items-center justify-center shrink-0',
+                  current ? 'bg-[#8B5E3C] border-[#8B5E3C] text-white' : 'border-[#D4C5A9]'
+                )}
+              >
+                {current && <Check className="w-3 h-3" />}
+              </div>
+            </button>
+
+            {current && (
+              <div className="flex items-center gap-3 mt-2 pl-[68px]">
+                <input
+                  type="range"
+                  min={MIN_MOTION_STRENGTH}
+                  max={MAX_MOTION_STRENGTH}
+                  step={0.05}
+                  value={current.strength}
+                  onChange={(e) => setStrength(preset.key, parseFloat(e.target.value))}
+                  className="flex-1 accent-[#8B5E3C]"
+                />
+                <span className="text-xs text-[#8B5E3C] w-10 text-right tabular-nums">
+                  {Math.round(current.strength * 100)}%
+                </span>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
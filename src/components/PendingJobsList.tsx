@@ -0,0 +1,63 @@
+import React from 'react';
+import { Hourglass, Play, X } from 'lucide-react';
+import type { PendingJob } from '../lib/pendingJobs';
+
+interface PendingJobsListProps {
+  // Unfinished jobs from a previous session, besides any already resumed
+  jobs: PendingJob[];
+  // False when nothing was resumed, e.g. after opening a shared link
+  besidesResumed?: boolean;
+  // Only one job runs on the main screen at a time
+  disabled?: boolean;
+  onResume: (job: PendingJob) => void;
+  onDiscard: (job: PendingJob) => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+
+const describeCount = (count: number, besidesResumed: boolean) => {
+  if (besidesResumed) return count === 1 ? 'Another memory was' : `${count} more memories were`;
+  return count === 1 ? 'A memory was' : `${count} memories were`;
+};
+
+export const PendingJobsList: React.FC<PendingJobsListProps> = ({
+  jobs,
+  besidesResumed = true,
+  disabled = false,
+  onResume,
+  onDiscard,
+}) => (
+  <div className="p-3 bg-[#F4EBD9] border border-[#E6DCC8] rounded-lg space-y-2">
+    <p className="text-sm text-[#6F4B30] flex items-center gap-2">
+      <Hourglass className="w-4 h-4" />
+      {describeCount(jobs.length, besidesResumed)} still being generated when the page closed.
+    </p>
+    <div className="flex flex-wrap gap-2">
+      {jobs.map((job) => (
+        <div
+          key={job.requestId}
+          className="flex items-center gap-2 pl-1 pr-2 py-1 bg-white border border-[#D4C5A9] rounded-md"
+        >
+          <img src={job.sourceImage} alt="" className="w-8 h-8 rounded object-cover" />
+          <span className="text-xs text-[#6B6B6B]">Started {formatTime(job.startedAt)}</span>
+          <button
+            onClick={() => onResume(job)}
+            disabled={disabled}
+            className="text-xs font-medium text-[#8B5E3C] hover:text-[#6F4B30] flex items-center gap-1 disabled:opacity-50"
+          >
+            <Play className="w-3 h-3" />
+            Resume
+          </button>
+          <button
+            onClick={() => onDiscard(job)}
+            className="text-[#8B8B8B] hover:text-red-600"
+            title="Stop tracking this job"
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ))}
+    </div>
+  </div>
+);
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { Save, Trash2 } from 'lucide-react';
+import { cn } from '../lib/utils';
+import {
+  BUILT_IN_TEMPLATES,
+  SCENE_LABELS,
+  SCENE_SLOTS,
+  addCustomTemplate,
+  composePrompt,
+  loadCustomTemplates,
+  removeCustomTemplate,
+  type PromptTemplate,
+} from '../lib/promptTemplates';
+
+interface PromptBuilderProps {
+  // Receives the composed prompt on every change
+  onCompose: (prompt: string) => void;
+}
+
+const inputClassName =
+  'w-full px-3 py-1.5 bg-white border border-[#D4C5A9] rounded-md focus:outline-none focus:ring-2 focus:ring-[#8B5E3C]/20 focus:border-[#8B5E3C] transition-all text-sm';
+
+// Picks a scene template, fills its hint slots and writes the result into the
+// prompt. Editing the prompt box afterwards is still possible.
+export const PromptBuilder: React.FC<PromptBuilderProps> = ({ onCompose }) => {
+  const [customTemplates, setCustomTemplates] = useState<PromptTemplate[]>(loadCustomTemplates);
+  const [template, setTemplate] = useState<PromptTemplate | null>(null);
+  const [text, setText] = useState('');
+  const [hints, setHints] = useState<Record<string, string>>({});
+  const [saveName, setSaveName] = useState('');
+
+  const compose = (nextText: string, nextHints: Record<string, string>) => {
+    if (!template) return;
+    setText(nextText);
+    setHints(nextHints);
+    onCompose(composePrompt({ scene: template.scene, text: nextText }, nextHints));
+  };
+
+  const selectTemplate = (next: PromptTemplate) => {
+    const nextHints = next.hints ?? {};
+    setTemplate(next);
+    setText(next.text);
+    setHints(nextHints);
+    onCompose(composePrompt(next, nextHints));
+  };
+
+  const handleSave = () => {
+    if (!template || !saveName.trim()) return;
+    setCustomTemplates(addCustomTemplate({ name: saveName.trim(), scene: template.scene, text, hints }));
+    setSaveName('');
+  };
+
+  const handleRemove = (id: string) => {
+    setCustomTemplates(removeCustomTemplate(id));
+    if (template?.id === id) setTemplate(null);
+  };
+
+  const composed = template ? composePrompt({ scene: template.scene, text }, hints) : '';
+
+  return (
+    <div className="p-3 bg-white/60 border border-[#E6DCC8] rounded-lg space-y-3">
+      <div className="flex flex-wrap gap-1.5">
+        {[...BUILT_IN_TEMPLATES, ...customTemplates].map((option) => (
+          <span
+            key={option.id}
+            className={cn(
+              'inline-flex items-center rounded-full border text-xs transition-colors',
+              template?.id === option.id
+                ? 'bg-[#8B5E3C] border-[#8B5E3C] text-white'
+                : 'bg-white border-[#D4C5A9] text-[#6B6B6B] hover:border-[#8B5E3C]'
+            )}
+          >
+            <button onClick={() => selectTemplate(option)} className="px-2.5 py-1" title={SCENE_LABELS[option.scene]}>
+              {option.name}
+            </button>
+            {option.custom && (
+              <button
+                onClick={() => handleRemove(option.id)}
+                className="pr-2 opacity-70 hover:opacity-100"
+                title="Delete template"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            )}
+          </span>
+        ))}
+      </div>
+
+      {template ? (
+        <>
+          <textarea
+            value={text}
+            onChange={(e) => compose(e.target.value, hints)}
+            rows={2}
+            className={cn(inputClassName, 'resize-none')}
+          />
+
+          {SCENE_SLOTS[template.scene].map((slot) => (
+            <div key={slot.key} className="space-y-1">
+              <label className="text-xs font-medium text-[#4A4A4A] block">{slot.label}</label>
+              <input
+                type="text"
+                value={hints[slot.key] ?? ''}
+                placeholder={slot.placeholder}
+                onChange={(e) => compose(text, { ...hints, [slot.key]: e.target.value })}
+                className={inputClassName}
+              />
+              {slot.suggestions && (
+                <div className="flex flex-wrap gap-1">
+                  {slot.suggestions.map((suggestion) => (
+                    <button
+                      key={suggestion}
+                      onClick={() => compose(text, { ...hints, [slot.key]: suggestion })}
+                      className="px-2 py-0.5 rounded-full bg-[#F4EBD9] text-[11px] text-[#6B6B6B] hover:text-[#6F4B30]"
+                    >
+                      {suggestion}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+
+          <div className="space-y-1">
+            <div className="text-xs font-medium text-[#4A4A4A]">Composed prompt</div>
+            <p className="p-2 bg-[#F4EBD9] rounded-md text-xs text-[#4A4A4A] italic">{composed}</p>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={saveName}
+              placeholder="Name this template"
+              onChange={(e) => setSaveName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+              className={inputClassName}
+            />
+            <button
+              onClick={handleSave}
+              disabled={!saveName.trim()}
+              className="shrink-0 px-3 py-1.5 rounded-md text-xs font-medium text-[#8B5E3C] border border-[#D4C5A9] hover:border-[#8B5E3C] flex items-center gap-1 disabled:opacity-50"
+            >
+              <Save className="w-3.5 h-3.5" />
+              Save
+            </button>
+          </div>
+        </>
+      ) : (
+        <p className="text-xs text-[#8B8B8B]">Pick the kind of photo to start from a matching prompt.</p>
+      )}
+    </div>
+  );
+};
@@ -1,35 +1,133 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, Key, Lock, Save, AlertCircle } from 'lucide-react';
+import { X, Key, Lock, Save, AlertCircle, Server, Loader2, Trash2, Users } from 'lucide-react';
 import { Button } from './ui/Button';
+import { cn } from '../lib/utils';
+import {
+  PROVIDERS,
+  DEFAULT_PROVIDER_ID,
+  getProvider,
+  type ProviderId,
+  type VideoProvider,
+} from '../api/providers';
+import { MIN_PASSPHRASE_LENGTH, type CredentialProfile } from '../lib/keyVault';
+import { hasCredentialErrors, validateCredentials } from '../lib/credentialValidation';
+import { ConnectionTest, type ConnectionTester } from './ConnectionTest';
+import { UsagePanel } from './UsagePanel';
+import type { SaveProfileOptions, VaultStatus } from '../hooks/useApiKeys';
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (key: string, secret: string) => void;
+  // `remember` is set when the keys should be saved as an encrypted profile
+  onSave: (key: string, secret: string, providerId: ProviderId, remember?: SaveProfileOptions) => void | Promise<void>;
+  initialProviderId?: ProviderId;
+  // Providers the user may pick, e.g. without the proxy when none is running
+  providers?: VideoProvider[];
   initialKey?: string;
   initialSecret?: string;
+  vaultStatus?: VaultStatus;
+  profiles?: CredentialProfile[];
+  activeProfileId?: string | null;
+  onSelectProfile?: (id: string) => Promise<void>;
+  onDeleteProfile?: (id: string) => Promise<void>;
+  onForgetSavedKeys?: () => void;
+  // Saved profiles are locked - ask for the passphrase
+  onRequestUnlock?: () => void;
+  testConnection?: ConnectionTester;
 }
 
+const inputClassName =
+  'w-full pl-10 pr-4 py-2 bg-white border border-[#D4C5A9] rounded-md focus:outline-none focus:ring-2 focus:ring-[#8B5E3C]/20 focus:border-[#8B5E3C] transition-all text-sm';
+
 export const SettingsModal: React.FC<SettingsModalProps> = ({
   isOpen,
   onClose,
   onSave,
+  initialProviderId = DEFAULT_PROVIDER_ID,
+  providers = Object.values(PROVIDERS),
   initialKey = '',
-  initialSecret = ''
+  initialSecret = '',
+  vaultStatus = 'empty',
+  profiles = [],
+  activeProfileId = null,
+  onSelectProfile,
+  onDeleteProfile,
+  onForgetSavedKeys,
+  onRequestUnlock,
+  testConnection
 }) => {
+  const activeProfile = profiles.find((profile) => profile.id === activeProfileId);
+  const hasActiveProfile = Boolean(activeProfile);
+  const activeProfileName = activeProfile?.name ?? '';
+
   const [apiKey, setApiKey] = useState(initialKey);
   const [apiSecret, setApiSecret] = useState(initialSecret);
+  const [providerId, setProviderId] = useState<ProviderId>(initialProviderId);
+  const [remember, setRemember] = useState(hasActiveProfile);
+  const [profileName, setProfileName] = useState(activeProfileName);
+  const [passphrase, setPassphrase] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  // Format errors show for fields with content, or for all after a save attempt
+  const [showAllErrors, setShowAllErrors] = useState(false);
 
-  // Update state if props change (e.g. from localStorage)
+  // Update state if props change (e.g. after unlocking or switching profile)
   useEffect(() => {
     setApiKey(initialKey);
     setApiSecret(initialSecret);
-  }, [initialKey, initialSecret, isOpen]);
+    setProviderId(initialProviderId);
+    setRemember(hasActiveProfile);
+    setProfileName(activeProfileName);
+    setPassphrase('');
+    setSaveError(null);
+    setShowAllErrors(false);
+  }, [initialKey, initialSecret, initialProviderId, activeProfileId, hasActiveProfile, activeProfileName, isOpen]);
+
+  const needsKeys = getProvider(providerId).capabilities.requiresCredentials;
+  const credentialErrors = validateCredentials(apiKey, apiSecret);
+  const keyError = (apiKey || showAllErrors) && credentialErrors.apiKey;
+  const secretError = (apiSecret || showAllErrors) && credentialErrors.apiSecret;
+  // The passphrase is only asked for when there is no unlocked vault to add to
+  const needsPassphrase = remember && vaultStatus !== 'unlocked';
+
+  const validateRemember = () => {
+    if (!profileName.trim()) return 'Give this profile a name.';
+    if (vaultStatus === 'empty' && passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      return `Choose a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters.`;
+    }
+    if (needsPassphrase && !passphrase) return 'Enter your passphrase to add to your saved profiles.';
+    return null;
+  };
+
+  const handleSave = async () => {
+    if (needsKeys && hasCredentialErrors(credentialErrors)) {
+      setShowAllErrors(true);
+      return;
+    }
+    const shouldRemember = needsKeys && remember;
+    const problem = shouldRemember ? validateRemember() : null;
+    if (problem) {
+      setSaveError(problem);
+      return;
+    }
 
-  const handleSave = () => {
-    onSave(apiKey, apiSecret);
-    onClose();
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      await onSave(
+        apiKey,
+        apiSecret,
+        providerId,
+        shouldRemember ? { name: profileName.trim(), passphrase: passphrase || undefined } : undefined
+      );
+      onClose();
+    } catch (err) {
+      console.error(err);
+      setSaveError(err instanceof Error ? err.message : 'Could not save your keys.');
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   return (
@@ -50,7 +148,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
             initial={{ opacity: 0, scale: 0.95, y: 20 }}
             animate={{ opacity: 1, scale: 1, y: 0 }}
             exit={{ opacity: 0, scale: 0.95, y: 20 }}
-            className="w-full max-w-md bg-[#FDF6E3] rounded-xl shadow-2xl border border-[#E6DCC8] p-6 relative"
+            className="w-full max-w-md max-h-[90vh] overflow-y-auto bg-[#FDF6E3] rounded-xl shadow-2xl border border-[#E6DCC8] p-6 relative"
             onClick={(e) => e.stopPropagation()} // Prevent click from closing modal
           >
             <div className="flex justify-between items-center mb-6">
@@ -67,48 +165,187 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
             </div>
 
             <div className="space-y-4">
-              <div className="p-3 bg-amber-50 border border-amber-100 rounded-lg flex gap-3 items-start">
-                <AlertCircle className="w-5 h-5 text-amber-600 shrink-0 mt-0.5" />
-                <p className="text-xs text-amber-800">
-                  Your keys are stored locally in your browser and are never sent to our servers. They are only used to communicate directly with Higgsfield AI.
-                </p>
-              </div>
-
               <div className="space-y-2">
-                <label className="text-sm font-medium text-[#4A4A4A] block">Higgsfield API Key</label>
-                <div className="relative">
-                  <Key className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[#8B8B8B]" />
-                  <input
-                    type="text"
-                    value={apiKey}
-                    onChange={(e) => setApiKey(e.target.value)}
-                    placeholder="Enter your API Key"
-                    className="w-full pl-10 pr-4 py-2 bg-white border border-[#D4C5A9] rounded-md focus:outline-none focus:ring-2 focus:ring-[#8B5E3C]/20 focus:border-[#8B5E3C] transition-all text-sm"
-                  />
+                <label className="text-sm font-medium text-[#4A4A4A] flex items-center gap-2">
+                  <Server className="w-4 h-4 text-[#8B8B8B]" />
+                  Provider
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  {providers.map((provider) => (
+                    <button
+                      key={provider.id}
+                      onClick={() => setProviderId(provider.id)}
+                      className={cn(
+                        'text-left p-3 rounded-lg border transition-colors',
+                        providerId === provider.id
+                          ? 'border-[#8B5E3C] bg-white'
+                          : 'border-[#E6DCC8] hover:border-[#D4C5A9]'
+                      )}
+                    >
+                      <div className="text-sm font-medium text-[#2C2C2C]">{provider.name}</div>
+                      <div className="text-xs text-[#8B8B8B] mt-0.5">{provider.description}</div>
+                    </button>
+                  ))}
                 </div>
               </div>
 
-              <div className="space-y-2">
-                <label className="text-sm font-medium text-[#4A4A4A] block">Higgsfield API Secret</label>
-                <div className="relative">
-                  <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[#8B8B8B]" />
-                  <input
-                    type="password"
-                    value={apiSecret}
-                    onChange={(e) => setApiSecret(e.target.value)}
-                    placeholder="Enter your API Secret"
-                    className="w-full pl-10 pr-4 py-2 bg-white border border-[#D4C5A9] rounded-md focus:outline-none focus:ring-2 focus:ring-[#8B5E3C]/20 focus:border-[#8B5E3C] transition-all text-sm"
+              {needsKeys && (
+                <>
+                  {vaultStatus === 'locked' && (
+                    <div className="flex items-center justify-between text-xs text-[#6B6B6B] bg-white border border-[#E6DCC8] rounded-lg p-3">
+                      <span className="flex items-center gap-2">
+                        <Lock className="w-3.5 h-3.5 text-[#8B8B8B]" />
+                        Saved profiles are locked.
+                      </span>
+                      {onRequestUnlock && (
+                        <button onClick={onRequestUnlock} className="font-medium text-[#8B5E3C] hover:text-[#6F4B30]">
+                          Unlock
+                        </button>
+                      )}
+                    </div>
+                  )}
+
+                  {vaultStatus === 'unlocked' && profiles.length > 0 && (
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium text-[#4A4A4A] flex items-center gap-2">
+                        <Users className="w-4 h-4 text-[#8B8B8B]" />
+                        Saved profiles
+                      </label>
+                      <div className="flex gap-2">
+                        <select
+                          value={activeProfileId ?? ''}
+                          onChange={(e) => onSelectProfile?.(e.target.value).catch(console.error)}
+                          className="flex-1 bg-white border border-[#D4C5A9] rounded-md px-3 py-2 text-sm"
+                        >
+                          {!activeProfile && <option value="">Choose a profile...</option>}
+                          {profiles.map((profile) => (
+                            <option key={profile.id} value={profile.id}>
+                              {profile.name}
+                            </option>
+                          ))}
+                        </select>
+                        {activeProfile && onDeleteProfile && (
+                          <button
+                            onClick={() => onDeleteProfile(activeProfile.id).catch(console.error)}
+                            className="p-2 text-[#8B8B8B] hover:text-red-500"
+                            title={`Delete "${activeProfile.name}"`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-[#4A4A4A] block">Higgsfield API Key</label>
+                    <div className="relative">
+                      <Key className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[#8B8B8B]" />
+                      <input
+                        type="text"
+                        value={apiKey}
+                        onChange={(e) => setApiKey(e.target.value)}
+                        placeholder="Enter your API Key"
+                        className={cn(inputClassName, keyError && 'border-red-300')}
+                      />
+                    </div>
+                    {keyError && <p className="text-xs text-red-600">{keyError}</p>}
+                  </div>
+
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-[#4A4A4A] block">Higgsfield API Secret</label>
+                    <div className="relative">
+                      <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[#8B8B8B]" />
+                      <input
+                        type="password"
+                        value={apiSecret}
+                        onChange={(e) => setApiSecret(e.target.value)}
+                        placeholder="Enter your API Secret"
+                        className={cn(inputClassName, secretError && 'border-red-300')}
+                      />
+                    </div>
+                    {secretError && <p className="text-xs text-red-600">{secretError}</p>}
+                  </div>
+
+                  <ConnectionTest
+                    apiKey={apiKey}
+                    apiSecret={apiSecret}
+                    disabled={hasCredentialErrors(credentialErrors)}
+                    tester={testConnection}
                   />
+
+                  <label className="flex items-center gap-2 text-sm text-[#4A4A4A] cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={remember}
+                      onChange={(e) => setRemember(e.target.checked)}
+                      className="accent-[#8B5E3C]"
+                    />
+                    Remember on this device (encrypted)
+                  </label>
+
+                  {remember && (
+                    <div className="grid grid-cols-2 gap-2">
+                      <input
+                        type="text"
+                        value={profileName}
+                        onChange={(e) => setProfileName(e.target.value)}
+                        placeholder="Profile name, e.g. Personal"
+                        className={cn(inputClassName, 'px-3')}
+                      />
+                      {needsPassphrase && (
+                        <input
+                          type="password"
+                          value={passphrase}
+                          onChange={(e) => setPassphrase(e.target.value)}
+                          placeholder={vaultStatus === 'empty' ? 'New passphrase' : 'Your passphrase'}
+                          className={cn(inputClassName, 'px-3')}
+                        />
+                      )}
+                    </div>
+                  )}
+
+                  <div className="p-3 bg-amber-50 border border-amber-100 rounded-lg flex gap-3 items-start">
+                    <AlertCircle className="w-5 h-5 text-amber-600 shrink-0 mt-0.5" />
+                    <p className="text-xs text-amber-800">
+                      {remember
+                        ? 'Your keys will be encrypted with your passphrase and saved in this browser. Without the passphrase they cannot be recovered.'
+                        : 'Your keys are kept in memory for this tab only and are forgotten when you reload.'}{' '}
+                      They are only ever sent to Higgsfield AI.
+                    </p>
+                  </div>
+
+                  {vaultStatus !== 'empty' && onForgetSavedKeys && (
+                    <button
+                      onClick={onForgetSavedKeys}
+                      className="text-xs text-[#8B8B8B] hover:text-red-600"
+                    >
+                      Delete all saved profiles from this device
+                    </button>
+                  )}
+                </>
+              )}
+
+              {saveError && (
+                <div className="text-xs text-red-600 flex items-center gap-1.5">
+                  <AlertCircle className="w-3.5 h-3.5" />
+                  {saveError}
                 </div>
-              </div>
+              )}
+
+              <UsagePanel providers={providers} />
             </div>
 
             <div className="mt-8 flex justify-end gap-3">
               <Button variant="ghost" onClick={onClose}>
                 Cancel
               </Button>
-              <Button variant="vintage" onClick={handleSave}>
-                <Save className="w-4 h-4 mr-2" />
+              <Button variant="vintage" onClick={handleSave} disabled={isSaving}>
+                {isSaving ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Save className="w-4 h-4 mr-2" />
+                )}
                 Save Configuration
               </Button>
             </div>
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Lock, Unlock, Loader2, AlertCircle } from 'lucide-react';
+import { Button } from './ui/Button';
+import { WrongPassphraseError } from '../lib/keyVault';
+
+interface UnlockPromptProps {
+  isOpen: boolean;
+  onUnlock: (passphrase: string) => Promise<void>;
+  // Continue without the saved keys for this session
+  onSkip: () => void;
+  onForget: () => void;
+}
+
+export const UnlockPrompt: React.FC<UnlockPromptProps> = ({ isOpen, onUnlock, onSkip, onForget }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [confirmForget, setConfirmForget] = useState(false);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await onUnlock(passphrase);
+      setPassphrase('');
+    } catch (err) {
+      setError(err instanceof WrongPassphraseError ? err.message : 'Could not unlock your saved keys.');
+      if (!(err instanceof WrongPassphraseError)) console.error(err);
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm"
+        >
+          <motion.form
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            onSubmit={handleUnlock}
+            className="w-full max-w-sm bg-[#FDF6E3] rounded-xl shadow-2xl border border-[#E6DCC8] p-6 space-y-4"
+          >
+            <h2 className="text-xl font-serif font-bold text-[#2C2C2C] flex items-center gap-2">
+              <Lock className="w-5 h-5 text-[#8B5E3C]" />
+              Unlock saved keys
+            </h2>
+            <p className="text-sm text-[#6B6B6B]">
+              Your API keys are saved on this device, encrypted with your passphrase.
+            </p>
+
+            <input
+              type="password"
+              autoFocus
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder="Passphrase"
+              className="w-full px-4 py-2 bg-white border border-[#D4C5A9] rounded-md focus:outline-none focus:ring-2 focus:ring-[#8B5E3C]/20 focus:border-[#8B5E3C] transition-all text-sm"
+            />
+
+            {error && (
+              <div className="text-xs text-red-600 flex items-center gap-1.5">
+                <AlertCircle className="w-3.5 h-3.5" />
+                {error}
+              </div>
+            )}
+
+            <div className="flex justify-between items-center pt-2">
+              {confirmForget ? (
+                <button
+                  type="button"
+                  onClick={onForget}
+                  className="text-xs text-red-600 hover:text-red-700 font-medium"
+                >
+                  Really delete saved keys?
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => setConfirmForget(true)}
+                  className="text-xs text-[#8B8B8B] hover:text-red-600"
+                >
+                  Forgot passphrase
+                </button>
+              )}
+              <div className="flex gap-2">
+                <Button type="button" variant="ghost" size="sm" onClick={onSkip}>
+                  Not now
+                </Button>
+                <Button type="submit" variant="vintage" size="sm" disabled={!passphrase || isUnlocking}>
+                  {isUnlocking ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Unlock className="w-4 h-4 mr-2" />
+                  )}
+                  Unlock
+                </Button>
+              </div>
+            </div>
+          </motion.form>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
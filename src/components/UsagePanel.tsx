@@ -0,0 +1,197 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ChevronDown, Coins } from 'lucide-react';
+import { cn } from '../lib/utils';
+import type { VideoProvider } from '../api/providers';
+import {
+  formatCost,
+  loadBudget,
+  loadPriceTable,
+  saveBudget,
+  savePriceTable,
+  type BudgetSettings,
+  type PriceTable,
+  type UsageSummary,
+} from '../lib/pricing';
+import { getUsageSummary, subscribeToUsage } from '../lib/usageLedger';
+
+interface UsagePanelProps {
+  providers: VideoProvider[];
+}
+
+const numberInputClassName =
+  'w-20 px-2 py-1 bg-white border border-[#D4C5A9] rounded-md focus:outline-none focus:ring-2 focus:ring-[#8B5E3C]/20 focus:border-[#8B5E3C] text-sm';
+
+// Empty or invalid input becomes null, negative prices become 0
+const parseAmount = (value: string) => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? Math.max(0, parsed) : null;
+};
+
+// Spend so far, the price table and the budget cap. Changes save immediately.
+export const UsagePanel: React.FC<UsagePanelProps> = ({ providers }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [prices, setPrices] = useState<PriceTable>(loadPriceTable);
+  const [budget, setBudget] = useState<BudgetSettings>(loadBudget);
+
+  useEffect(() => {
+    const refresh = () =>
+      getUsageSummary()
+        .then(setSummary)
+        .catch((err) => console.warn('Could not load usage:', err));
+    refresh();
+    return subscribeToUsage(refresh);
+  }, []);
+
+  const updatePrices = (next: PriceTable) => {
+    setPrices(next);
+    savePriceTable(next);
+  };
+
+  const updateBudget = (patch: Partial<BudgetSettings>) => {
+    const next = { ...budget, ...patch };
+    setBudget(next);
+    saveBudget(next);
+  };
+
+  const spent = budget.period === 'day' ? summary?.today.cost : summary?.month.cost;
+
+  return (
+    <div className="bg-white/60 border border-[#E6DCC8] rounded-lg">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-3 py-2 text-sm font-medium text-[#4A4A4A] hover:text-[#6F4B30] transition-colors"
+      >
+        <span className="flex items-center gap-2">
+          <Coins className="w-4 h-4 text-[#8B8B8B]" />
+          Usage & budget
+        </span>
+        <span className="flex items-center gap-2 text-xs font-normal text-[#8B8B8B]">
+          {summary && `${formatCost(summary.month.cost, prices.unit)} this month`}
+          <ChevronDown className={cn('w-4 h-4 transition-transform', isOpen && 'rotate-180')} />
+        </span>
+      </button>
+
+      <AnimatePresence initial={false}>
+        {isOpen && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="overflow-hidden"
+          >
+            <div className="px-3 pb-3 space-y-4">
+              <div className="grid grid-cols-2 gap-2">
+                {([
+                  ['Today', summary?.today],
+                  ['This month', summary?.month],
+                ] as const).map(([label, totals]) => (
+                  <div key={label} className="p-2 bg-[#F4EBD9] rounded-md border border-[#E6DCC8]">
+                    <div className="text-[10px] uppercase tracking-wide text-[#8B8B8B]">{label}</div>
+                    <div className="text-sm font-medium text-[#2C2C2C]">
+                      {totals ? formatCost(totals.cost, prices.unit) : '…'}
+                    </div>
+                    <div className="text-xs text-[#8B8B8B]">
+                      {totals ? `${totals.jobs} job${totals.jobs === 1 ? '' : 's'}` : ''}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <div className="text-xs font-medium text-[#4A4A4A]">Price per job</div>
+                {providers.map((provider) => (
+                  <label key={provider.id} className="flex items-center justify-between gap-2 text-xs text-[#6B6B6B]">
+                    {provider.name}
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={prices.perJob[provider.id]}
+                      onChange={(e) =>
+                        updatePrices({
+                          ...prices,
+                          perJob: { ...prices.perJob, [provider.id]: parseAmount(e.target.value) ?? 0 },
+                        })
+                      }
+                      className={numberInputClassName}
+                    />
+                  </label>
+                ))}
+                <label className="flex items-center justify-between gap-2 text-xs text-[#6B6B6B]">
+                  Each extra motion
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={prices.perExtraMotion}
+                    onChange={(e) => updatePrices({ ...prices, perExtraMotion: parseAmount(e.target.value) ?? 0 })}
+                    className={numberInputClassName}
+                  />
+                </label>
+                <label className="flex items-center justify-between gap-2 text-xs text-[#6B6B6B]">
+                  Unit
+                  <input
+                    type="text"
+                    value={prices.unit}
+                    onChange={(e) => updatePrices({ ...prices, unit: e.target.value })}
+                    className={numberInputClassName}
+                  />
+                </label>
+                <p className="text-[11px] text-[#8B8B8B]">
+                  Estimates only - match these to your Higgsfield plan. Past jobs keep the price they were logged with.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <div className="text-xs font-medium text-[#4A4A4A]">Budget</div>
+                <div className="flex items-center gap-2 text-xs text-[#6B6B6B]">
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={budget.limit ?? ''}
+                    placeholder="No cap"
+                    onChange={(e) => updateBudget({ limit: parseAmount(e.target.value) })}
+                    className={numberInputClassName}
+                  />
+                  {prices.unit} per
+                  <select
+                    value={budget.period}
+                    onChange={(e) => updateBudget({ period: e.target.value as BudgetSettings['period'] })}
+                    className="px-2 py-1 bg-white border border-[#D4C5A9] rounded-md text-xs"
+                  >
+                    <option value="day">day</option>
+                    <option value="month">month</option>
+                  </select>
+                </div>
+                <div className="flex gap-3 text-xs text-[#6B6B6B]">
+                  {(['warn', 'block'] as const).map((mode) => (
+                    <label key={mode} className="flex items-center gap-1.5 cursor-pointer">
+                      <input
+                        type="radio"
+                        checked={budget.mode === mode}
+                        onChange={() => updateBudget({ mode })}
+                        className="accent-[#8B5E3C]"
+                      />
+                      {mode === 'warn' ? 'Ask before going over' : 'Block jobs over the cap'}
+                    </label>
+                  ))}
+                </div>
+                {budget.limit !== null && spent !== undefined && (
+                  <div className="h-1.5 bg-[#E6DCC8] rounded-full overflow-hidden">
+                    <div
+                      className={cn('h-full', spent >= budget.limit ? 'bg-red-500' : 'bg-[#8B5E3C]')}
+                      style={{ width: `${budget.limit > 0 ? Math.min(100, (spent / budget.limit) * 100) : 100}%` }}
+                    />
+                  </div>
+                )}
+              </div>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import React from 'react';
+import { Shuffle } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { MAX_VARIATIONS } from '../lib/generationSettings';
+
+interface VariationControlsProps {
+  count: number;
+  onCountChange: (count: number) => void;
+  varyStrength: boolean;
+  onVaryStrengthChange: (value: boolean) => void;
+  disabled?: boolean;
+}
+
+// How many takes "Relive Memory" submits; more than one switches to the variations grid
+export const VariationControls: React.FC<VariationControlsProps> = ({
+  count,
+  onCountChange,
+  varyStrength,
+  onVaryStrengthChange,
+  disabled = false
+}) => (
+  <fieldset
+    disabled={disabled}
+    className="flex flex-wrap items-center justify-center gap-3 text-sm text-[#6B6B6B] disabled:opacity-60"
+  >
+    <span className="flex items-center gap-1.5">
+      <Shuffle className="w-4 h-4 text-[#8B5E3C]" />
+      Takes
+    </span>
+    <div className="bg-[#F4EBD9] p-1 rounded-lg border border-[#E6DCC8] flex gap-1">
+      {Array.from({ length: MAX_VARIATIONS }, (_, i) => i + 1).map((n) => (
+        <button
+          key={n}
+          onClick={() => onCountChange(n)}
+          className={cn(
+            'w-8 py-1 rounded-md text-xs font-medium transition-all',
+            count === n ? 'bg-white text-[#8B5E3C] shadow-sm' : 'text-[#8B8B8B] hover:text-[#6F4B30]'
+          )}
+        >
+          {n}
+        </button>
+      ))}
+    </div>
+    {count > 1 && (
+      <label className="flex items-center gap-2 text-xs cursor-pointer">
+        <input
+          type="checkbox"
+          checked={varyStrength}
+          onChange={(e) => onVaryStrengthChange(e.target.checked)}
+          className="accent-[#8B5E3C]"
+        />
+        Vary motion strength
+      </label>
+    )}
+  </fieldset>
+);
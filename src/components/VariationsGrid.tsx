@@ -0,0 +1,172 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Loader2, AlertCircle, RotateCw, X, Crown, Play, Pause, SkipBack, Shuffle } from 'lucide-react';
+import { Button } from './ui/Button';
+import { cn } from '../lib/utils';
+import type { QueueItem } from '../lib/jobQueue';
+
+interface VariationsGridProps {
+  items: QueueItem[];
+  // Video URL of the take currently shown as the main result
+  promotedUrl?: string | null;
+  onPromote: (item: QueueItem) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+}
+
+// Takes drifting further apart than this are snapped back to the first one
+const SYNC_TOLERANCE_S = 0.12;
+const SYNC_INTERVAL_MS = 500;
+
+const describeTake = (item: QueueItem) => {
+  const strengths = item.settings?.motions.map((motion) => motion.strength.toFixed(2)).join(' / ');
+  return strengths ? `Seed ${item.settings?.seed} · strength ${strengths}` : `Seed ${item.settings?.seed}`;
+};
+
+export const VariationsGrid: React.FC<VariationsGridProps> = ({
+  items,
+  promotedUrl,
+  onPromote,
+  onRetry,
+  onRemove,
+  onClear
+}) => {
+  const [isPlaying, setIsPlaying] = useState(true);
+  const videosRef = useRef(new Map<string, HTMLVideoElement>());
+
+  const finished = items.filter((item) => item.status === 'completed' && item.videoUrl);
+  const activeCount = items.filter((item) => item.status === 'queued' || item.status === 'running').length;
+
+  const allVideos = () => [...videosRef.current.values()];
+
+  const restart = () => {
+    allVideos().forEach((video) => {
+      video.currentTime = 0;
+      if (isPlaying) video.play().catch(console.warn);
+    });
+  };
+
+  const togglePlay = () => {
+    const next = !isPlaying;
+    allVideos().forEach((video) => (next ? video.play().catch(console.warn) : video.pause()));
+    setIsPlaying(next);
+  };
+
+  // Rewind everything whenever a new take finishes, so they line up. Playing
+  // takes keep playing and the new one autoplays if the grid is playing.
+  useEffect(() => {
+    videosRef.current.forEach((video) => {
+      video.currentTime = 0;
+    });
+  }, [finished.length]);
+
+  // Keep every take on the same frame as the first so differences are easy to spot
+  useEffect(() => {
+    if (!isPlaying || finished.length < 2) return;
+    const timer = setInterval(() => {
+      const [leader, ...rest] = allVideos();
+      if (!leader) return;
+      rest.forEach((video) => {
+        if (Math.abs(video.currentTime - leader.currentTime) > SYNC_TOLERANCE_S) {
+          video.currentTime = leader.currentTime;
+        }
+      });
+    }, SYNC_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isPlaying, finished.length]);
+
+  const registerVideo = (id: string) => (video: HTMLVideoElement | null) => {
+    if (video) videosRef.current.set(id, video);
+    else videosRef.current.delete(id);
+  };
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-[#6B6B6B] flex items-center gap-2">
+          <Shuffle className="w-4 h-4 text-[#8B5E3C]" />
+          Variations: {finished.length} of {items.length} ready
+          {activeCount > 0 && ` - ${activeCount} in progress`}
+        </span>
+        <div className="flex items-center gap-2">
+          {finished.length > 0 && (
+            <>
+              <Button variant="ghost" size="sm" onClick={restart} title="Restart all">
+                <SkipBack className="w-4 h-4" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={togglePlay} title={isPlaying ? 'Pause all' : 'Play all'}>
+                {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+              </Button>
+            </>
+          )}
+          <Button variant="ghost" size="sm" onClick={onClear} disabled={activeCount > 0}>
+            Clear
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-4 grid-cols-2">
+        {items.map((item) => {
+          const isPromoted = Boolean(item.videoUrl && item.videoUrl === promotedUrl);
+          return (
+            <div
+              key={item.id}
+              className={cn(
+                'bg-white rounded-lg border-[6px] border-white shadow-md overflow-hidden',
+                isPromoted && 'ring-2 ring-[#8B5E3C]'
+              )}
+            >
+              <div className="relative aspect-video bg-[#F4EBD9] flex items-center justify-center">
+                {item.status === 'completed' && item.videoUrl ? (
+                  <video
+                    ref={registerVideo(item.id)}
+                    src={item.videoUrl}
+                    muted
+                    loop
+                    playsInline
+                    autoPlay={isPlaying}
+                    className="w-full h-full object-cover"
+                  />
+                ) : item.status === 'failed' || item.status === 'cancelled' ? (
+                  <div className="p-3 text-center space-y-2">
+                    <AlertCircle className="w-5 h-5 text-red-500 mx-auto" />
+                    <p className="text-xs text-red-600 line-clamp-2">{item.error || 'Cancelled'}</p>
+                    <Button variant="outline" size="sm" onClick={() => onRetry(item.id)}>
+                      <RotateCw className="w-3 h-3 mr-1.5" />
+                      Retry
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="text-center space-y-1">
+                    <Loader2 className="w-5 h-5 text-[#8B5E3C] animate-spin mx-auto" />
+                    <p className="text-xs text-[#8B8B8B]">{item.progress || 'Queued'}</p>
+                  </div>
+                )}
+                <button
+                  onClick={() => onRemove(item.id)}
+                  className="absolute top-1.5 right-1.5 p-1 rounded-full bg-white/80 text-[#8B8B8B] hover:text-red-600"
+                  title={item.status === 'running' ? 'Cancel this take' : 'Remove'}
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              <div className="flex items-center justify-between gap-2 px-2 py-1.5">
+                <span className="text-[11px] text-[#6B6B6B] truncate">{describeTake(item)}</span>
+                {item.status === 'completed' && item.videoUrl && (
+                  <button
+                    onClick={() => onPromote(item)}
+                    disabled={isPromoted}
+                    className="text-xs font-medium text-[#8B5E3C] hover:text-[#6F4B30] flex items-center gap-1 shrink-0 disabled:opacity-60"
+                  >
+                    <Crown className="w-3.5 h-3.5" />
+                    {isPromoted ? 'Chosen' : 'Use this'}
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+};
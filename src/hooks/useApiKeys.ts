@@ -1,33 +1,145 @@
-import { useState, useEffect } from 'react';
+import { useState, useRef } from 'react';
+import {
+  clearVault,
+  createProfileId,
+  createVaultKey,
+  hasVault,
+  openVault,
+  writeVault,
+  type CredentialProfile,
+  type VaultContents,
+  type VaultKey,
+} from '../lib/keyVault';
 
-export const useApiKeys = () => {
-  const [keys, setKeys] = useState({
-    apiKey: '',
-    apiSecret: ''
-  });
+// 'empty'    - nothing saved, keys live for this tab only
+// 'locked'   - encrypted profiles exist but the passphrase was not entered yet
+// 'unlocked' - profiles are decrypted in memory and can be edited
+export type VaultStatus = 'empty' | 'locked' | 'unlocked';
 
-  useEffect(() => {
-    // 1. Check Environment Variables
-    const envKey = import.meta.env.VITE_HIGGSFIELD_API_KEY;
-    const envSecret = import.meta.env.VITE_HIGGSFIELD_API_SECRET;
+export interface SaveProfileOptions {
+  name: string;
+  // Needed to create the vault, or to unlock it when still locked
+  passphrase?: string;
+}
 
-    // Check if they are valid (not placeholders)
-    const hasEnvKeys = envKey && envKey !== "YOUR_API_KEY" && envSecret && envSecret !== "YOUR_API_SECRET";
+const getEnvKeys = () => {
+  // 1. Check Environment Variables
+  const envKey = import.meta.env.VITE_HIGGSFIELD_API_KEY;
+  const envSecret = import.meta.env.VITE_HIGGSFIELD_API_SECRET;
 
-    if (hasEnvKeys) {
-      setKeys({ apiKey: envKey, apiSecret: envSecret });
-    }
-    // We intentionally do NOT check localStorage here anymore.
-    // Keys will reset on every page reload.
-  }, []);
+  // Check if they are valid (not placeholders)
+  const hasEnvKeys = envKey && envKey !== "YOUR_API_KEY" && envSecret && envSecret !== "YOUR_API_SECRET";
+
+  // Saved profiles are encrypted (see lib/keyVault) and only become
+  // available after unlock, so nothing else is read here.
+  return hasEnvKeys ? { apiKey: envKey, apiSecret: envSecret } : { apiKey: '', apiSecret: '' };
+};
+
+const EMPTY_VAULT: VaultContents = { profiles: [], activeProfileId: null };
+
+export const useApiKeys = () => {
+  // Read env keys on the first render so `hasKeys` is accurate immediately
+  // (e.g. when deciding whether a pending job can be resumed on load)
+  const [keys, setKeys] = useState(getEnvKeys);
+  const [vaultStatus, setVaultStatus] = useState<VaultStatus>(() => (hasVault() ? 'locked' : 'empty'));
+  const [vault, setVault] = useState<VaultContents>(EMPTY_VAULT);
+  // The derived key never leaves memory and is dropped on reload
+  const vaultKeyRef = useRef<VaultKey | null>(null);
+
+  const applyProfile = (contents: VaultContents) => {
+    const active = contents.profiles.find((profile) => profile.id === contents.activeProfileId);
+    if (active) setKeys({ apiKey: active.apiKey, apiSecret: active.apiSecret });
+  };
+
+  const persist = async (contents: VaultContents) => {
+    if (!vaultKeyRef.current) throw new Error('Saved keys are locked.');
+    await writeVault(contents, vaultKeyRef.current);
+    setVault(contents);
+  };
 
   const saveKeys = (newKey: string, newSecret: string) => {
-    // We update the state for the current session only.
-    // We do NOT save to localStorage.
+    // Session only - use saveProfile to remember keys across reloads
     setKeys({ apiKey: newKey, apiSecret: newSecret });
   };
 
+  const unlock = async (passphrase: string) => {
+    const { contents, key } = await openVault(passphrase);
+    vaultKeyRef.current = key;
+    setVault(contents);
+    setVaultStatus('unlocked');
+    applyProfile(contents);
+  };
+
+  // Encrypts the keys under `name`, replacing a profile with the same name,
+  // and makes it the active one
+  const saveProfile = async (apiKey: string, apiSecret: string, { name, passphrase }: SaveProfileOptions) => {
+    let contents = vault;
+    if (!vaultKeyRef.current) {
+      if (!passphrase) throw new Error('Enter a passphrase to save keys on this device.');
+      if (vaultStatus === 'locked') {
+        const opened = await openVault(passphrase);
+        vaultKeyRef.current = opened.key;
+        contents = opened.contents;
+      } else {
+        vaultKeyRef.current = await createVaultKey(passphrase);
+        contents = EMPTY_VAULT;
+      }
+    }
+
+    const existing = contents.profiles.find((profile) => profile.name === name);
+    const profile: CredentialProfile = { id: existing?.id ?? createProfileId(), name, apiKey, apiSecret };
+    const next: VaultContents = {
+      profiles: existing
+        ? contents.profiles.map((p) => (p.id === existing.id ? profile : p))
+        : [...contents.profiles, profile],
+      activeProfileId: profile.id,
+    };
+    await persist(next);
+    setVaultStatus('unlocked');
+    setKeys({ apiKey, apiSecret });
+  };
+
+  const selectProfile = async (id: string) => {
+    const next = { ...vault, activeProfileId: id };
+    await persist(next);
+    applyProfile(next);
+  };
+
+  const deleteProfile = async (id: string) => {
+    const profiles = vault.profiles.filter((profile) => profile.id !== id);
+    if (profiles.length === 0) {
+      forgetSavedKeys();
+      return;
+    }
+    const activeProfileId = vault.activeProfileId === id ? profiles[0].id : vault.activeProfileId;
+    const next = { profiles, activeProfileId };
+    await persist(next);
+    applyProfile(next);
+  };
+
+  // Removes every saved profile from this device; the current keys stay for the session
+  const forgetSavedKeys = () => {
+    clearVault();
+    vaultKeyRef.current = null;
+    setVault(EMPTY_VAULT);
+    setVaultStatus('empty');
+  };
+
   const hasKeys = Boolean(keys.apiKey && keys.apiSecret);
 
-  return { ...keys, saveKeys, hasKeys };
+  return {
+    ...keys,
+    saveKeys,
+    hasKeys,
+    vaultStatus,
+    profiles: vault.profiles,
+    activeProfileId: vault.activeProfileId,
+    unlock,
+    saveProfile,
+    selectProfile,
+    deleteProfile,
+    forgetSavedKeys,
+  };
 };
+
+export type ApiKeysState = ReturnType<typeof useApiKeys>;
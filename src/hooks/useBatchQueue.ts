@@ -0,0 +1,152 @@
+import { useState, useEffect, useLayoutEffect, useRef, type MutableRefObject } from 'react';
+import { isCancelledError, extractVideoUrl } from '../api/higgsfield';
+import { NsfwRejectedError, RateLimitError, describeError } from '../api/errors';
+import { formatStatus } from '../api/eta';
+import { generateWithProvider, type VideoProvider } from '../api/providers';
+import { recordGeneration } from '../lib/history';
+import { recordUsage, reserveBudget, type UsageStatus } from '../lib/usageLedger';
+import { notifyJobOutcome } from '../lib/jobNotifications';
+import { resetTab, showTabOutcome, showTabProgress } from '../lib/tabStatus';
+import {
+  toGenerationRequest,
+  withResolvedSeed,
+  type GenerationSettings,
+} from '../lib/generationSettings';
+import { createJobQueue, type QueueItem } from '../lib/jobQueue';
+
+interface UseBatchQueueOptions {
+  apiKey: string;
+  apiSecret: string;
+  provider: VideoProvider;
+  settings: GenerationSettings;
+  concurrency: number;
+}
+
+// Outside the hook so the effects below only depend on the queue itself
+const createBatchQueue = (
+  latest: MutableRefObject<UseBatchQueueOptions>,
+  onChange: (items: QueueItem[]) => void
+) =>
+  createJobQueue({
+    concurrency: latest.current.concurrency,
+    onChange,
+    run: async (item, signal, onProgress) => {
+      const { apiKey, apiSecret, provider } = latest.current;
+      // Resolve the seed per item so history records what was actually sent
+      const settings = withResolvedSeed(item.settings ?? latest.current.settings);
+      const startedAt = Date.now();
+      let requestId: string | undefined;
+
+      const record = (outcome: { videoUrl?: string; error?: string }) =>
+        recordGeneration({
+          providerId: provider.id,
+          requestId,
+          sourceImage: item.sourceImage,
+          settings,
+          startedAt,
+          ...outcome,
+        }).catch((err) => console.warn('Could not save to history:', err));
+
+      const trackUsage = (status: UsageStatus, error?: string) =>
+        recordUsage({
+          providerId: provider.id,
+          requestId,
+          sourceImage: item.sourceImage,
+          settings,
+          startedAt,
+          status,
+          error,
+        }).catch((err) => console.warn('Could not update the usage ledger:', err));
+
+      // Fails the item before anything is sent if it would go over a blocking cap
+      const releaseBudget = await reserveBudget(provider.id, settings);
+
+      try {
+        const response = await generateWithProvider(provider, {
+          request: toGenerationRequest(item.sourceImage, settings),
+          credentials: { apiKey, apiSecret },
+          signal,
+          onStatusUpdate: (status, progress) => onProgress(formatStatus(status, progress)),
+          onJobCreated: (job) => {
+            requestId = job.requestId;
+            // The ledger counts it from here on
+            trackUsage('submitted').finally(releaseBudget);
+          },
+        });
+
+        const videoUrl = extractVideoUrl(response);
+        if (!videoUrl) throw new Error('Generation finished without a video URL.');
+        record({ videoUrl });
+        trackUsage('completed');
+        notifyJobOutcome('completed', `${item.label} has come to life.`);
+        return videoUrl;
+      } catch (err) {
+        // Rate-limited jobs go back in the queue, so they are neither spend
+        // nor history yet. Cancelled ones are not finished either.
+        if (err instanceof RateLimitError) throw err;
+        const { message } = describeError(err);
+        trackUsage(isCancelledError(err) ? 'cancelled' : 'failed', message);
+        if (!isCancelledError(err)) {
+          record({ error: message });
+          notifyJobOutcome(err instanceof NsfwRejectedError ? 'nsfw' : 'failed', `${item.label}: ${message}`);
+        }
+        throw err;
+      } finally {
+        releaseBudget();
+      }
+    },
+  });
+
+export const useBatchQueue = ({ apiKey, apiSecret, provider, settings, concurrency }: UseBatchQueueOptions) => {
+  const [items, setItems] = useState<QueueItem[]>([]);
+
+  // The runner reads the latest keys/settings at the time each job starts
+  const latest = useRef({ apiKey, apiSecret, provider, settings, concurrency });
+  useLayoutEffect(() => {
+    latest.current = { apiKey, apiSecret, provider, settings, concurrency };
+  });
+
+  const [queue, setQueue] = useState(() => createBatchQueue(latest, setItems));
+
+  useEffect(() => {
+    queue.setConcurrency(concurrency);
+  }, [queue, concurrency]);
+
+  // StrictMode runs effects twice in development, disposing the first queue
+  // right away. A fresh one takes its place.
+  useEffect(() => {
+    if (queue.isDisposed()) {
+      setQueue(createBatchQueue(latest, setItems));
+      return;
+    }
+    return () => queue.dispose();
+  }, [queue]);
+
+  // Counts finished items in the tab while any are left, and shows how the
+  // run went once the last one settles
+  const wasActive = useRef(false);
+  useEffect(() => {
+    const active = items.some((item) => item.status === 'queued' || item.status === 'running');
+    if (active) {
+      wasActive.current = true;
+      const done = items.filter((item) => item.status === 'completed' || item.status === 'failed').length;
+      showTabProgress(`${done} of ${items.length} done`, null);
+      return;
+    }
+    if (!wasActive.current) return;
+    wasActive.current = false;
+    if (items.some((item) => item.status === 'failed')) showTabOutcome('failed');
+    else if (items.some((item) => item.status === 'completed')) showTabOutcome('completed');
+    else resetTab();
+  }, [items]);
+
+  // Unmounting disposes the queue, so a run still in progress won't finish
+  useEffect(
+    () => () => {
+      if (wasActive.current) resetTab();
+    },
+    []
+  );
+
+  return { items, ...queue };
+};
@@ -0,0 +1,37 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  getHistory,
+  subscribeToHistory,
+  updateHistoryEntry,
+  deleteHistoryEntry,
+  setEntryKeptOffline,
+  type HistoryEntry,
+} from '../lib/history';
+
+export const useHistory = () => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(() => {
+    getHistory()
+      .then(setEntries)
+      .catch((err) => console.warn('Could not load history:', err))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return subscribeToHistory(refresh);
+  }, [refresh]);
+
+  const toggleFavorite = (entry: HistoryEntry) =>
+    updateHistoryEntry(entry.id, { favorite: !entry.favorite });
+
+  const removeEntry = (entry: HistoryEntry) => deleteHistoryEntry(entry.id);
+
+  // Entries saved by older versions hold the clip inline, which counts as kept too
+  const toggleKeptOffline = (entry: HistoryEntry) =>
+    setEntryKeptOffline(entry, !(entry.keptOffline || entry.videoBlob));
+
+  return { entries, isLoading, toggleFavorite, removeEntry, toggleKeptOffline };
+};
@@ -0,0 +1,42 @@
+import { useState, useEffect } from 'react';
+import type { ProviderCredentials, VideoProvider } from '../api/providers';
+import { applyMotionLibrary } from '../lib/motionCatalog';
+
+export type MotionLibraryStatus = 'loading' | 'ready' | 'unavailable';
+
+// Loads the provider's motion library into the catalog, so presets resolve
+// to real motion ids. Until it loads only the default motion can be sent.
+export const useMotionLibrary = (provider: VideoProvider, { apiKey, apiSecret }: ProviderCredentials) => {
+  const [status, setStatus] = useState<MotionLibraryStatus>('loading');
+
+  useEffect(() => {
+    if (!provider.listMotions) {
+      applyMotionLibrary(null);
+      setStatus('ready');
+      return;
+    }
+    applyMotionLibrary([]);
+    if (provider.capabilities.requiresCredentials && !(apiKey && apiSecret)) {
+      setStatus('unavailable');
+      return;
+    }
+
+    const controller = new AbortController();
+    setStatus('loading');
+    provider
+      .listMotions({ apiKey, apiSecret }, controller.signal)
+      .then((entries) => {
+        if (controller.signal.aborted) return;
+        applyMotionLibrary(entries);
+        setStatus('ready');
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        console.warn('Could not load the motion library:', err);
+        setStatus('unavailable');
+      });
+    return () => controller.abort();
+  }, [provider, apiKey, apiSecret]);
+
+  return status;
+};
@@ -0,0 +1,52 @@
+import { useState, useEffect } from 'react';
+import {
+  DEFAULT_PROVIDER_ID,
+  PROVIDERS,
+  getProvider,
+  isProviderId,
+  type ProviderId,
+} from '../api/providers';
+import { detectProxy } from '../api/proxy';
+
+const STORAGE_KEY = 'memory-lane:provider';
+
+// The provider choice is not sensitive, so unlike the keys it survives reloads
+const getStoredProviderId = (): ProviderId | null => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return isProviderId(stored) ? stored : null;
+};
+
+export const useProvider = () => {
+  const [providerId, setProviderIdState] = useState<ProviderId>(
+    () => getStoredProviderId() ?? DEFAULT_PROVIDER_ID
+  );
+  const [isProxyAvailable, setIsProxyAvailable] = useState(false);
+
+  // A configured proxy becomes the default, so users never get asked for keys.
+  // An explicit choice made in settings still wins.
+  useEffect(() => {
+    const controller = new AbortController();
+    detectProxy(controller.signal).then((available) => {
+      if (controller.signal.aborted) return;
+      setIsProxyAvailable(available);
+      const stored = getStoredProviderId();
+      if (available && stored === null) {
+        setProviderIdState('proxy');
+      } else if (!available && stored === 'proxy') {
+        setProviderIdState(DEFAULT_PROVIDER_ID);
+      }
+    });
+    return () => controller.abort();
+  }, []);
+
+  const setProviderId = (id: ProviderId) => {
+    localStorage.setItem(STORAGE_KEY, id);
+    setProviderIdState(id);
+  };
+
+  const availableProviders = Object.values(PROVIDERS).filter(
+    (provider) => provider.id !== 'proxy' || isProxyAvailable
+  );
+
+  return { providerId, provider: getProvider(providerId), setProviderId, availableProviders, isProxyAvailable };
+};
@@ -0,0 +1,37 @@
+// Format checks for pasted API credentials. Deliberately loose about the
+// exact shape (Higgsfield may change it) and strict about common paste
+// mistakes: stray quotes, whitespace, "Bearer" prefixes, key and secret swapped into one field.
+
+export interface CredentialErrors {
+  apiKey?: string;
+  apiSecret?: string;
+}
+
+const MIN_LENGTH = 8;
+
+const checkValue = (value: string, label: string): string | undefined => {
+  if (!value) return `Enter your ${label}.`;
+  if (value !== value.trim()) return `The ${label} has spaces at the start or end.`;
+  if (/^["'`].*["'`]$/.test(value)) return `Remove the quotes around the ${label}.`;
+  if (/^bearer\s/i.test(value)) return `Paste the ${label} without the "Bearer" prefix.`;
+  if (/\s/.test(value)) return `The ${label} should not contain spaces or line breaks.`;
+  if (/[^\x21-\x7e]/.test(value)) return `The ${label} contains unexpected characters.`;
+  if (value.length < MIN_LENGTH) return `That ${label} looks too short.`;
+  return undefined;
+};
+
+export const validateCredentials = (apiKey: string, apiSecret: string): CredentialErrors => {
+  const errors: CredentialErrors = {
+    apiKey: checkValue(apiKey, 'API key'),
+    apiSecret: checkValue(apiSecret, 'API secret'),
+  };
+  if (!errors.apiKey && !errors.apiSecret && apiKey === apiSecret) {
+    errors.apiSecret = 'The secret is the same as the key - check you copied both.';
+  }
+  if (!errors.apiKey && apiKey.includes(':') && !apiSecret) {
+    errors.apiKey = 'This looks like "key:secret" - paste the two parts into separate fields.';
+  }
+  return errors;
+};
+
+export const hasCredentialErrors = (errors: CredentialErrors) => Boolean(errors.apiKey || errors.apiSecret);
@@ -0,0 +1,72 @@
+// Minimal promise wrapper around the app's IndexedDB database.
+// Every persistent feature gets its own object store; bump DB_VERSION
+// and add the store name to STORES when introducing a new one.
+
+const DB_NAME = 'memory-lane';
+const DB_VERSION = 3;
+
+export const STORES = {
+  pendingJobs: 'pendingJobs',
+  history: 'history',
+  usageLedger: 'usageLedger',
+} as const;
+
+type StoreName = (typeof STORES)[keyof typeof STORES];
+
+// Key path per store - all stores are keyed by an `id`-like field on the record
+const KEY_PATHS: Record<StoreName, string> = {
+  pendingJobs: 'requestId',
+  history: 'id',
+  usageLedger: 'id',
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const store of Object.values(STORES)) {
+          if (!db.objectStoreNames.contains(store)) {
+            db.createObjectStore(store, { keyPath: KEY_PATHS[store] });
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  run: (objectStore: IDBObjectStore) => IDBRequest<T>
+) => {
+  const db = await openDb();
+  return promisify(run(db.transaction(store, mode).objectStore(store)));
+};
+
+export const getAll = <T>(store: StoreName) =>
+  withStore<T[]>(store, 'readonly', (s) => s.getAll());
+
+export const getOne = <T>(store: StoreName, key: IDBValidKey) =>
+  withStore<T | undefined>(store, 'readonly', (s) => s.get(key));
+
+export const put = <T>(store: StoreName, value: T) =>
+  withStore(store, 'readwrite', (s) => s.put(value));
+
+export const remove = (store: StoreName, key: IDBValidKey) =>
+  withStore(store, 'readwrite', (s) => s.delete(key));
@@ -0,0 +1,106 @@
+// Shareable links that open the app with a photo, generation settings and
+// optionally a finished clip, e.g.
+//   ?image=https://...&motion=slow-zoom:0.6,smile&seed=42&prompt=...&video=https://...
+import {
+  DEFAULT_GENERATION_SETTINGS,
+  MAX_SEED,
+  type GenerationSettings,
+} from './generationSettings';
+import { MAX_MOTION_STRENGTH, MIN_MOTION_STRENGTH, getMotionPreset, type SelectedMotion } from './motionCatalog';
+
+export interface DeepLink {
+  image?: string;
+  video?: string;
+  settings: GenerationSettings;
+}
+
+// Only plain web URLs travel in a link; uploads (data URLs) and local
+// object URLs mean nothing on another device
+export const isShareableUrl = (value: string | null | undefined): value is string =>
+  Boolean(value && /^https?:\/\//i.test(value));
+
+// `key` or `key:strength`, comma separated; unknown presets are skipped
+const parseMotions = (value: string): SelectedMotion[] =>
+  value.split(',').flatMap((item) => {
+    const [key, strengthText] = item.trim().split(':');
+    const preset = getMotionPreset(key);
+    if (!preset) return [];
+    const strength = Number(strengthText);
+    return [
+      {
+        key,
+        strength: Number.isFinite(strength)
+          ? Math.min(MAX_MOTION_STRENGTH, Math.max(MIN_MOTION_STRENGTH, strength))
+          : preset.defaultStrength,
+      },
+    ];
+  });
+
+const formatMotions = (motions: SelectedMotion[]) =>
+  motions.map(({ key, strength }) => `${key}:${Number(strength.toFixed(2))}`).join(',');
+
+// Returns null when the query string carries nothing this app understands
+export const parseDeepLink = (search: string): DeepLink | null => {
+  const params = new URLSearchParams(search);
+  const settings: GenerationSettings = { ...DEFAULT_GENERATION_SETTINGS };
+  let recognised = false;
+
+  const image = params.get('image');
+  const video = params.get('video');
+
+  const prompt = params.get('prompt');
+  if (prompt !== null) {
+    settings.prompt = prompt;
+    recognised = true;
+  }
+
+  const seed = parseInt(params.get('seed') ?? '', 10);
+  if (seed >= 1 && seed <= MAX_SEED) {
+    settings.seedMode = 'fixed';
+    settings.seed = seed;
+    recognised = true;
+  }
+
+  const motions = parseMotions(params.get('motion') ?? '');
+  if (motions.length > 0) {
+    settings.motions = motions;
+    recognised = true;
+  }
+
+  const enhance = params.get('enhance');
+  if (enhance === '0' || enhance === '1') {
+    settings.enhancePrompt = enhance === '1';
+    recognised = true;
+  }
+
+  if (!recognised && !isShareableUrl(image) && !isShareableUrl(video)) return null;
+  return {
+    image: isShareableUrl(image) ? image : undefined,
+    video: isShareableUrl(video) ? video : undefined,
+    settings,
+  };
+};
+
+// Builds a link on the current page. Values that can't be shared are
+// left out rather than failing.
+export const buildDeepLink = (
+  { image, video, settings }: { image?: string | null; video?: string | null; settings: GenerationSettings },
+  base = window.location.href
+) => {
+  const url = new URL(base);
+  url.search = '';
+  url.hash = '';
+  const params = url.searchParams;
+
+  if (isShareableUrl(image)) params.set('image', image);
+  if (settings.motions.length > 0) params.set('motion', formatMotions(settings.motions));
+  // A random seed isn't reproducible, so it is only shared once pinned
+  if (settings.seedMode === 'fixed') params.set('seed', String(settings.seed));
+  if (settings.prompt !== DEFAULT_GENERATION_SETTINGS.prompt) params.set('prompt', settings.prompt);
+  if (settings.enhancePrompt !== DEFAULT_GENERATION_SETTINGS.enhancePrompt) {
+    params.set('enhance', settings.enhancePrompt ? '1' : '0');
+  }
+  if (isShareableUrl(video)) params.set('video', video);
+
+  return url.toString();
+};
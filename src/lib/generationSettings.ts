@@ -0,0 +1,86 @@
+import { DEFAULT_PROMPT, DEFAULT_SEED, type GenerationRequest } from '../api/higgsfield';
+import {
+  DEFAULT_MOTIONS,
+  MAX_MOTION_STRENGTH,
+  MIN_MOTION_STRENGTH,
+  toMotionSettings,
+  type SelectedMotion,
+} from './motionCatalog';
+
+export type SeedMode = 'random' | 'fixed';
+
+// User-editable generation options shown in the "Advanced" panel
+export interface GenerationSettings {
+  prompt: string;
+  seedMode: SeedMode;
+  seed: number;
+  enhancePrompt: boolean;
+  motions: SelectedMotion[];
+}
+
+export const MAX_SEED = 999999;
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  prompt: DEFAULT_PROMPT,
+  seedMode: 'fixed',
+  seed: DEFAULT_SEED,
+  enhancePrompt: true,
+  motions: DEFAULT_MOTIONS,
+};
+
+export const randomSeed = () => Math.floor(Math.random() * MAX_SEED) + 1;
+
+// Picks the seed to send for a single run
+export const resolveSeed = (settings: GenerationSettings) =>
+  settings.seedMode === 'random' ? randomSeed() : settings.seed;
+
+// Pins the seed so what gets persisted matches what was actually sent
+export const withResolvedSeed = (settings: GenerationSettings): GenerationSettings => ({
+  ...settings,
+  seedMode: 'fixed',
+  seed: resolveSeed(settings),
+});
+
+export const MAX_VARIATIONS = 4;
+// Motion strength multipliers for the gentlest and strongest take
+const STRENGTH_SPREAD = [0.6, 1.3] as const;
+
+// Settings for `count` takes of one photo. Every take gets its own seed (a
+// fixed seed stays the first take) and, with `varyStrength`, motion
+// strengths spread from gentler to stronger than the chosen ones.
+export const createVariations = (
+  settings: GenerationSettings,
+  count: number,
+  varyStrength = false
+): GenerationSettings[] => {
+  const seeds = new Set<number>();
+  if (settings.seedMode === 'fixed') seeds.add(settings.seed);
+  while (seeds.size < count) seeds.add(randomSeed());
+
+  return [...seeds].map((seed, index) => {
+    const [low, high] = STRENGTH_SPREAD;
+    const factor = varyStrength && count > 1 ? low + ((high - low) * index) / (count - 1) : 1;
+    return {
+      ...settings,
+      seedMode: 'fixed',
+      seed,
+      motions: settings.motions.map((motion) => ({
+        ...motion,
+        strength: Math.min(
+          MAX_MOTION_STRENGTH,
+          Math.max(MIN_MOTION_STRENGTH, Math.round(motion.strength * factor * 100) / 100)
+        ),
+      })),
+    };
+  });
+};
+
+// Maps UI settings onto API parameters. Expects a resolved seed.
+export const toGenerationRequest = (imageUrl: string, settings: GenerationSettings): GenerationRequest => ({
+  imageUrl,
+  // An empty prompt falls back to the client default
+  prompt: settings.prompt.trim() || undefined,
+  seed: settings.seed,
+  enhancePrompt: settings.enhancePrompt,
+  motions: toMotionSettings(settings.motions),
+});
@@ -0,0 +1,146 @@
+import type { ProviderId } from '../api/providers';
+import type { GenerationSettings } from './generationSettings';
+import { STORES, getAll, getOne, put, remove } from './db';
+import { forgetVideo, keepVideoOffline, offlineCacheSupported } from './offlineVideos';
+
+export type HistoryStatus = 'completed' | 'failed';
+
+export interface HistoryEntry {
+  id: string;
+  providerId: ProviderId;
+  requestId?: string;
+  // Full source as sent to the API (URL or data URL) so it can be re-run
+  sourceImage: string;
+  // Small JPEG data URL for the gallery, falls back to sourceImage
+  thumbnail: string;
+  videoUrl?: string;
+  // Copy of the clip saved by older versions, before kept clips moved to Cache Storage
+  videoBlob?: Blob;
+  // The clip is in the offline video cache
+  keptOffline?: boolean;
+  settings: GenerationSettings;
+  status: HistoryStatus;
+  error?: string;
+  favorite: boolean;
+  createdAt: number;
+  finishedAt: number;
+}
+
+const KEEP_VIDEO_FILES_KEY = 'memory-lane:keep-video-files';
+const THUMBNAIL_SIZE = 240;
+
+// Lets every useHistory instance refresh when any part of the app records a generation
+const listeners = new Set<() => void>();
+const notify = () => listeners.forEach((listener) => listener());
+
+export const subscribeToHistory = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getKeepVideoFiles = () => localStorage.getItem(KEEP_VIDEO_FILES_KEY) === 'true';
+
+export const setKeepVideoFiles = (value: boolean) =>
+  localStorage.setItem(KEEP_VIDEO_FILES_KEY, String(value));
+
+// Draws the source into a small JPEG. Cross-origin images without CORS headers
+// taint the canvas, in which case we keep the original URL as the thumbnail.
+export const createThumbnail = (src: string): Promise<string> =>
+  new Promise((resolve) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => {
+      try {
+        const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(img.naturalWidth * scale);
+        canvas.height = Math.round(img.naturalHeight * scale);
+        canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+        resolve(canvas.toDataURL('image/jpeg', 0.8));
+      } catch {
+        resolve(src);
+      }
+    };
+    img.onerror = () => resolve(src);
+    img.src = src;
+  });
+
+// Resolves to whether the clip made it into the cache
+const tryKeepVideo = async (url: string) => {
+  if (!offlineCacheSupported()) return false;
+  try {
+    await keepVideoOffline(url);
+    return true;
+  } catch (err) {
+    console.warn('Could not save video file offline:', err);
+    return false;
+  }
+};
+
+interface RecordGenerationParams {
+  providerId: ProviderId;
+  requestId?: string;
+  sourceImage: string;
+  settings: GenerationSettings;
+  startedAt: number;
+  videoUrl?: string;
+  error?: string;
+}
+
+export const recordGeneration = async ({
+  providerId,
+  requestId,
+  sourceImage,
+  settings,
+  startedAt,
+  videoUrl,
+  error,
+}: RecordGenerationParams) => {
+  const entry: HistoryEntry = {
+    id: `${startedAt}-${Math.random().toString(36).slice(2, 8)}`,
+    providerId,
+    requestId,
+    sourceImage,
+    thumbnail: await createThumbnail(sourceImage),
+    videoUrl,
+    keptOffline: videoUrl && getKeepVideoFiles() ? await tryKeepVideo(videoUrl) : false,
+    settings,
+    status: videoUrl ? 'completed' : 'failed',
+    error,
+    favorite: false,
+    createdAt: startedAt,
+    finishedAt: Date.now(),
+  };
+  await put(STORES.history, entry);
+  notify();
+  return entry;
+};
+
+export const getHistory = async () => {
+  const entries = await getAll<HistoryEntry>(STORES.history);
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const updateHistoryEntry = async (id: string, patch: Partial<HistoryEntry>) => {
+  const entry = await getOne<HistoryEntry>(STORES.history, id);
+  if (!entry) return;
+  await put(STORES.history, { ...entry, ...patch });
+  notify();
+};
+
+// Keeps or drops the offline copy of one clip. Throws if the download fails.
+export const setEntryKeptOffline = async (entry: HistoryEntry, keep: boolean) => {
+  if (!entry.videoUrl) return;
+  if (keep) await keepVideoOffline(entry.videoUrl);
+  else await forgetVideo(entry.videoUrl);
+  await updateHistoryEntry(entry.id, { keptOffline: keep, videoBlob: keep ? entry.videoBlob : undefined });
+};
+
+export const deleteHistoryEntry = async (id: string) => {
+  const entry = await getOne<HistoryEntry>(STORES.history, id);
+  if (entry?.keptOffline && entry.videoUrl) await forgetVideo(entry.videoUrl).catch(console.warn);
+  await remove(STORES.history, id);
+  notify();
+};
@@ -0,0 +1,203 @@
+// Turns whatever the user pasted, typed or dragged in into a direct image
+// URL the API can fetch. Share pages from common hosts are rewritten to
+// their direct-download form, then the URL is probed before a job is
+// submitted so broken links fail here rather than minutes into generation.
+
+// Smaller images are almost always thumbnails, favicons or tracking pixels
+export const MIN_IMAGE_DIMENSION = 256;
+const PROBE_TIMEOUT_MS = 15000;
+
+export interface ResolvedShareUrl {
+  url: string;
+  // Name of the host the link was rewritten for, if any
+  source?: string;
+}
+
+export interface ProbedImage {
+  url: string;
+  width: number;
+  height: number;
+  // Only known when the host allows cross-origin requests
+  contentType?: string;
+  source?: string;
+}
+
+export const isHttpUrl = (value: string) => /^https?:\/\/\S+$/i.test(value.trim());
+
+const SHARE_REWRITES: { source: string; match: (url: URL) => string | null }[] = [
+  {
+    // drive.google.com/file/d/<id>/view, drive.google.com/open?id=<id>
+    source: 'Google Drive',
+    match: (url) => {
+      if (url.hostname !== 'drive.google.com') return null;
+      const id = url.pathname.match(/\/file\/d\/([^/]+)/)?.[1] ?? url.searchParams.get('id');
+      return id ? `https://drive.google.com/uc?export=view&id=${id}` : null;
+    },
+  },
+  {
+    // www.dropbox.com/s/<key>/photo.jpg?dl=0 and /scl/fi/... links
+    source: 'Dropbox',
+    match: (url) => {
+      if (!/(^|\.)dropbox\.com$/.test(url.hostname) || url.hostname.startsWith('dl.')) return null;
+      const direct = new URL(url.toString());
+      direct.searchParams.delete('dl');
+      direct.searchParams.set('raw', '1');
+      return direct.toString();
+    },
+  },
+  {
+    // onedrive.live.com/?cid=...&resid=... viewer pages
+    source: 'OneDrive',
+    match: (url) => {
+      if (url.hostname !== 'onedrive.live.com') return null;
+      const cid = url.searchParams.get('cid');
+      const resid = url.searchParams.get('resid') ?? url.searchParams.get('id');
+      return cid && resid ? `https://onedrive.live.com/download?cid=${cid}&resid=${encodeURIComponent(resid)}` : null;
+    },
+  },
+  {
+    // imgur.com/<id> single-image pages (albums and galleries are not images)
+    source: 'Imgur',
+    match: (url) => {
+      if (url.hostname !== 'imgur.com' && url.hostname !== 'www.imgur.com') return null;
+      const id = url.pathname.match(/^\/([A-Za-z0-9]{5,8})$/)?.[1];
+      return id ? `https://i.imgur.com/${id}.jpg` : null;
+    },
+  },
+  {
+    // github.com/<owner>/<repo>/blob/<ref>/<path>
+    source: 'GitHub',
+    match: (url) => {
+      if (url.hostname !== 'github.com') return null;
+      const parts = url.pathname.match(/^\/([^/]+)\/([^/]+)\/blob\/(.+)$/);
+      return parts ? `https://raw.githubusercontent.com/${parts[1]}/${parts[2]}/${parts[3]}` : null;
+    },
+  },
+];
+
+// Rewrites share/viewer links to the direct file where the host allows it
+export const resolveShareUrl = (input: string): ResolvedShareUrl => {
+  const trimmed = input.trim();
+  let parsed: URL;
+  try {
+    parsed = new URL(trimmed);
+  } catch {
+    return { url: trimmed };
+  }
+  for (const { source, match } of SHARE_REWRITES) {
+    const direct = match(parsed);
+    if (direct) return { url: direct, source };
+  }
+  return { url: trimmed };
+};
+
+// HEAD is best effort: most image CDNs answer it, but a CORS failure only
+// means we can't look, not that the image is broken
+const probeHeaders = async (url: string, signal: AbortSignal) => {
+  let response: Response;
+  try {
+    response = await fetch(url, { method: 'HEAD', signal, redirect: 'follow' });
+  } catch {
+    return undefined;
+  }
+  if (response.status === 404 || response.status === 410) {
+    throw new Error(`Nothing was found at that link (HTTP ${response.status}).`);
+  }
+  if (!response.ok) return undefined;
+  return response.headers.get('content-type')?.split(';')[0].trim().toLowerCase() || undefined;
+};
+
+// Loading through an <img> works without CORS and gives the real dimensions
+const probeDimensions = (url: string, signal: AbortSignal) =>
+  new Promise<{ width: number; height: number }>((resolve, reject) => {
+    const img = new Image();
+    const onAbort = () => {
+      img.src = '';
+      reject(new Error('The image took too long to load. Check the link and try again.'));
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    img.onload = () => {
+      signal.removeEventListener('abort', onAbort);
+      resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    };
+    img.onerror = () => {
+      signal.removeEventListener('abort', onAbort);
+      reject(new Error("That link didn't load as an image. Make sure it points at the picture itself and is public."));
+    };
+    img.src = url;
+  });
+
+// Resolves share links and checks the target is a reachable, reasonably
+// sized image. Throws with a user-facing message otherwise.
+export const probeImageUrl = async (input: string): Promise<ProbedImage> => {
+  if (!isHttpUrl(input)) {
+    throw new Error('Please enter a valid URL starting with http:// or https://');
+  }
+  const { url, source } = resolveShareUrl(input);
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+  try {
+    const contentType = await probeHeaders(url, controller.signal);
+    if (contentType && !contentType.startsWith('image/') && contentType !== 'application/octet-stream') {
+      throw new Error(
+        contentType === 'text/html'
+          ? 'That link opens a web page, not an image. Right-click the picture and copy the image address instead.'
+          : `That link is a ${contentType} file, not an image.`
+      );
+    }
+
+    const { width, height } = await probeDimensions(url, controller.signal);
+    if (Math.min(width, height) < MIN_IMAGE_DIMENSION) {
+      throw new Error(
+        `That image is only ${width}×${height}px - it looks like a thumbnail. Use a copy at least ${MIN_IMAGE_DIMENSION}px on each side.`
+      );
+    }
+    return { url, width, height, contentType, source };
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// Image links dragged from another tab arrive as text/html (<img src>) and/or
+// text/uri-list. The <img> wins, since uri-list holds the surrounding link.
+export const extractDroppedImageUrl = (data: DataTransfer): string | null => {
+  const html = data.getData('text/html');
+  if (html) {
+    const src = new DOMParser().parseFromString(html, 'text/html').querySelector('img')?.getAttribute('src');
+    if (src && isHttpUrl(src)) return src;
+  }
+  const uri = data
+    .getData('text/uri-list')
+    .split(/\r?\n/)
+    .find((line) => line && !line.startsWith('#'));
+  if (uri && isHttpUrl(uri)) return uri;
+  const text = data.getData('text/plain').trim();
+  return isHttpUrl(text) ? text : null;
+};
+
+export type ClipboardImage = { kind: 'file'; file: File } | { kind: 'url'; url: string };
+
+// Reads an image or an image URL from a paste event
+export const readPastedImage = (data: DataTransfer): ClipboardImage | null => {
+  const file = Array.from(data.files).find((item) => item.type.startsWith('image/'));
+  if (file) return { kind: 'file', file };
+  const url = extractDroppedImageUrl(data);
+  return url ? { kind: 'url', url } : null;
+};
+
+// Same, for the async clipboard API behind an explicit "Paste" button
+export const readClipboardImage = async (): Promise<ClipboardImage | null> => {
+  if (navigator.clipboard?.read) {
+    const items = await navigator.clipboard.read();
+    for (const item of items) {
+      const type = item.types.find((t) => t.startsWith('image/'));
+      if (type) {
+        const blob = await item.getType(type);
+        return { kind: 'file', file: new File([blob], `pasted.${type.split('/')[1]}`, { type }) };
+      }
+    }
+  }
+  const text = (await navigator.clipboard?.readText?.())?.trim();
+  return text && isHttpUrl(text) ? { kind: 'url', url: text } : null;
+};
@@ -0,0 +1,209 @@
+// Client-side preparation for uploaded photos.
+// Phone photos are often several MB, rotated via EXIF and stored as HEIC,
+// so before handing them to the API we normalise everything into a
+// correctly oriented, metadata-free JPEG that fits under the size limit.
+
+import { fileToBase64 } from './utils';
+
+export const MAX_UPLOAD_BYTES = 1024 * 1024; // 1MB, what the API comfortably accepts
+export const MAX_SOURCE_BYTES = 25 * 1024 * 1024; // Reject anything absurdly large up front
+
+export interface PrepareImageOptions {
+  maxBytes?: number;
+  maxDimension?: number;
+  initialQuality?: number;
+  minQuality?: number;
+}
+
+export interface PreparedImage {
+  dataUrl: string;
+  blob: Blob;
+  width: number;
+  height: number;
+  originalBytes: number;
+  bytes: number;
+}
+
+const HEIC_TYPES = ['image/heic', 'image/heif'];
+const MIN_DIMENSION = 512;
+
+const isHeic = (file: File) =>
+  HEIC_TYPES.includes(file.type.toLowerCase()) || /\.(heic|heif)$/i.test(file.name);
+
+// Locates the EXIF orientation tag in a JPEG. Returns the orientation (1-8)
+// plus where its value lives so it can be neutralised before decoding.
+export const readExifOrientation = (
+  buffer: ArrayBuffer
+): { orientation: number; offset: number; littleEndian: boolean } | null => {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const segmentLength = view.getUint16(offset + 2);
+
+    // Start of scan - no more metadata segments after this point
+    if (marker === 0xffda) return null;
+
+    // APP1 segment with "Exif\0\0" header
+    if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+      const tiffStart = offset + 10;
+      const littleEndian = view.getUint16(tiffStart) === 0x4949;
+      const ifdStart = tiffStart + view.getUint32(tiffStart + 4, littleEndian);
+      if (ifdStart + 2 > view.byteLength) return null;
+
+      const entries = view.getUint16(ifdStart, littleEndian);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifdStart + 2 + i * 12;
+        if (entry + 12 > view.byteLength) return null;
+        if (view.getUint16(entry, littleEndian) === 0x0112) {
+          const orientation = view.getUint16(entry + 8, littleEndian);
+          return orientation >= 1 && orientation <= 8 ? { orientation, offset: entry + 8, littleEndian } : null;
+        }
+      }
+      return null;
+    }
+
+    offset += 2 + segmentLength;
+  }
+  return null;
+};
+
+// Decodes the file into a bitmap with EXIF orientation NOT applied, so the
+// transform below is the single source of truth regardless of browser defaults.
+const decodeRaw = async (file: File): Promise<{ bitmap: ImageBitmap; orientation: number }> => {
+  let source: Blob = file;
+  let orientation = 1;
+
+  if (isHeic(file)) {
+    try {
+      // Safari can decode HEIC natively
+      return { bitmap: await createImageBitmap(file), orientation };
+    } catch {
+      const { default: heic2any } = await import('heic2any');
+      const converted = await heic2any({ blob: file, toType: 'image/jpeg', quality: 0.92 });
+      source = Array.isArray(converted) ? converted[0] : converted;
+    }
+  }
+
+  if (source.type === 'image/jpeg') {
+    const buffer = await source.arrayBuffer();
+    const exif = readExifOrientation(buffer);
+    if (exif) {
+      orientation = exif.orientation;
+      new DataView(buffer).setUint16(exif.offset, 1, exif.littleEndian);
+      source = new Blob([buffer], { type: 'image/jpeg' });
+    }
+  }
+
+  return { bitmap: await createImageBitmap(source), orientation };
+};
+
+const drawOriented = (bitmap: ImageBitmap, orientation: number, scale: number) => {
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+  const swapsAxes = orientation >= 5;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = swapsAxes ? height : width;
+  canvas.height = swapsAxes ? width : height;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported in this browser.');
+
+  // JPEG has no alpha channel - flatten transparent PNG/WebP onto white
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, height, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, height, width); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, width); break;
+  }
+
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  return canvas;
+};
+
+const canvasToJpeg = (canvas: HTMLCanvasElement, quality: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode image.'))),
+      'image/jpeg',
+      quality
+    );
+  });
+
+export interface EncodedImage {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+// Re-encodes whatever `draw` renders as a JPEG under `maxBytes`. `draw` is
+// asked for smaller scales when lowering the quality alone is not enough.
+export const encodeWithinBudget = async (
+  draw: (scale: number) => HTMLCanvasElement,
+  longestSide: number,
+  options: PrepareImageOptions = {}
+): Promise<EncodedImage> => {
+  const {
+    maxBytes = MAX_UPLOAD_BYTES,
+    maxDimension = 2048,
+    initialQuality = 0.9,
+    minQuality = 0.6,
+  } = options;
+
+  let scale = Math.min(1, maxDimension / longestSide);
+  let quality = initialQuality;
+
+  // Lower the quality first, then the resolution, until it fits.
+  for (;;) {
+    const canvas = draw(scale);
+    const blob = await canvasToJpeg(canvas, quality);
+
+    const cannotShrink = longestSide * scale * 0.8 < MIN_DIMENSION;
+    if (blob.size <= maxBytes || (quality <= minQuality && cannotShrink)) {
+      if (blob.size > maxBytes) {
+        throw new Error('Image could not be compressed below the size limit.');
+      }
+      return { blob, width: canvas.width, height: canvas.height };
+    }
+
+    if (quality > minQuality) {
+      quality = Math.max(minQuality, quality - 0.1);
+    } else {
+      scale *= 0.8;
+      quality = initialQuality;
+    }
+  }
+};
+
+export const prepareImage = async (file: File, options: PrepareImageOptions = {}): Promise<PreparedImage> => {
+  const { bitmap, orientation } = await decodeRaw(file);
+
+  try {
+    // Re-encoding through the canvas drops all metadata (EXIF, GPS, ICC).
+    const { blob, width, height } = await encodeWithinBudget(
+      (scale) => drawOriented(bitmap, orientation, scale),
+      Math.max(bitmap.width, bitmap.height),
+      options
+    );
+    return {
+      dataUrl: await fileToBase64(blob),
+      blob,
+      width,
+      height,
+      originalBytes: file.size,
+      bytes: blob.size,
+    };
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,280 @@
+// Geometry and canvas rendering for the pre-generation editor: quarter-turn
+// rotation, fine straightening, cropping and border detection. The editor
+// keeps an ImageEdit and only renders pixels when the user applies it.
+
+import { encodeWithinBudget, type PrepareImageOptions } from './imagePreparation';
+import { fileToBase64 } from './utils';
+
+export type QuarterTurn = 0 | 90 | 180 | 270;
+
+// Fractions (0-1) of the rotated and straightened image
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageEdit {
+  rotation: QuarterTurn;
+  // Degrees, applied after the quarter turn
+  straighten: number;
+  crop: CropRect;
+}
+
+export type AspectRatioKey = 'free' | '1:1' | '4:3' | '16:9' | '9:16';
+
+export const ASPECT_RATIOS: { key: AspectRatioKey; label: string; ratio: number | null }[] = [
+  { key: 'free', label: 'Free', ratio: null },
+  { key: '1:1', label: '1:1', ratio: 1 },
+  { key: '4:3', label: '4:3', ratio: 4 / 3 },
+  { key: '16:9', label: '16:9', ratio: 16 / 9 },
+  { key: '9:16', label: '9:16', ratio: 9 / 16 },
+];
+
+export const MAX_STRAIGHTEN = 15;
+// Smallest crop side, as a fraction of the image
+export const MIN_CROP = 0.05;
+
+export const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+export const DEFAULT_EDIT: ImageEdit = { rotation: 0, straighten: 0, crop: FULL_CROP };
+
+export const isIdentityEdit = ({ rotation, straighten, crop }: ImageEdit) =>
+  rotation === 0 &&
+  straighten === 0 &&
+  crop.x === 0 &&
+  crop.y === 0 &&
+  crop.width === 1 &&
+  crop.height === 1;
+
+export const rotateQuarter = (rotation: QuarterTurn, direction: 1 | -1) =>
+  ((((rotation + direction * 90) % 360) + 360) % 360) as QuarterTurn;
+
+const loadWith = (src: string, cors: boolean): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    if (cors) img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not load the image for editing.'));
+    img.src = src;
+  });
+
+// CORS is needed to read pixels back from remote images. Hosts that don't send
+// CORS headers still load without it, so the preview works; only applying the
+// edit fails, with the tainted-canvas message in applyEdit.
+export const loadImage = (src: string) => loadWith(src, true).catch(() => loadWith(src, false));
+
+// Size of the image after the quarter turn
+const turnedSize = (img: HTMLImageElement, rotation: QuarterTurn) =>
+  rotation % 180 === 0
+    ? { width: img.naturalWidth, height: img.naturalHeight }
+    : { width: img.naturalHeight, height: img.naturalWidth };
+
+// Straightening by a small angle leaves empty corners. This is the scale of
+// the largest same-shaped rectangle that still fits inside the tilted image.
+const straightenScale = (width: number, height: number, degrees: number) => {
+  const angle = Math.abs((degrees * Math.PI) / 180);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return Math.min(width / (width * cos + height * sin), height / (width * sin + height * cos));
+};
+
+// Size of the image the crop rectangle refers to
+export const editedBaseSize = (img: HTMLImageElement, { rotation, straighten }: ImageEdit) => {
+  const { width, height } = turnedSize(img, rotation);
+  const scale = straightenScale(width, height, straighten);
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+// Draws the rotated and straightened image, without cropping, at `scale`
+export const renderBase = (img: HTMLImageElement, edit: ImageEdit, scale = 1) => {
+  const { width, height } = editedBaseSize(img, edit);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported in this browser.');
+
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate(((edit.rotation + edit.straighten) * Math.PI) / 180);
+  ctx.scale(scale, scale);
+  ctx.drawImage(img, -img.naturalWidth / 2, -img.naturalHeight / 2);
+  return canvas;
+};
+
+// Draws the final, cropped result at `scale`
+const renderEdit = (img: HTMLImageElement, edit: ImageEdit, scale: number) => {
+  const base = renderBase(img, edit, scale);
+  const { crop } = edit;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(base.width * crop.width));
+  canvas.height = Math.max(1, Math.round(base.height * crop.height));
+  canvas
+    .getContext('2d')
+    ?.drawImage(
+      base,
+      crop.x * base.width,
+      crop.y * base.height,
+      crop.width * base.width,
+      crop.height * base.height,
+      0,
+      0,
+      canvas.width,
+      canvas.height
+    );
+  return canvas;
+};
+
+// Renders the edit into a JPEG data URL within the upload size limit
+export const applyEdit = async (src: string, edit: ImageEdit, options?: PrepareImageOptions) => {
+  const img = await loadImage(src);
+  const { width, height } = editedBaseSize(img, edit);
+  try {
+    const { blob } = await encodeWithinBudget(
+      (scale) => renderEdit(img, edit, scale),
+      Math.max(width * edit.crop.width, height * edit.crop.height),
+      options
+    );
+    return await fileToBase64(blob);
+  } catch (err) {
+    // Remote images without CORS headers taint the canvas
+    if (err instanceof DOMException && err.name === 'SecurityError') {
+      throw new Error("This image's host does not allow editing. Download it and upload the file instead.");
+    }
+    throw err;
+  }
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const clampCrop = ({ x, y, width, height }: CropRect): CropRect => {
+  const w = clamp(width, MIN_CROP, 1);
+  const h = clamp(height, MIN_CROP, 1);
+  return { x: clamp(x, 0, 1 - w), y: clamp(y, 0, 1 - h), width: w, height: h };
+};
+
+// Largest rectangle of `ratio` (width / height, in pixels) centred inside `crop`.
+// `imageAspect` converts between the fractional crop and real pixels.
+export const fitCropToRatio = (crop: CropRect, ratio: number, imageAspect: number): CropRect => {
+  const cropAspect = (crop.width * imageAspect) / crop.height;
+  let { width, height } = crop;
+  if (cropAspect > ratio) {
+    width = (crop.height * ratio) / imageAspect;
+  } else {
+    height = (crop.width * imageAspect) / ratio;
+  }
+  return clampCrop({
+    x: crop.x + (crop.width - width) / 2,
+    y: crop.y + (crop.height - height) / 2,
+    width,
+    height,
+  });
+};
+
+export type CropHandle = 'nw' | 'ne' | 'sw' | 'se';
+
+export const moveCrop = (start: CropRect, dx: number, dy: number) =>
+  clampCrop({ ...start, x: start.x + dx, y: start.y + dy });
+
+// Drags one corner while the opposite corner stays put. With a locked ratio
+// the height follows the width, shrinking both if that would leave the image.
+export const resizeCrop = (
+  start: CropRect,
+  handle: CropHandle,
+  dx: number,
+  dy: number,
+  ratio: number | null,
+  imageAspect: number
+): CropRect => {
+  const west = handle === 'nw' || handle === 'sw';
+  const north = handle === 'nw' || handle === 'ne';
+  const anchorX = west ? start.x + start.width : start.x;
+  const anchorY = north ? start.y + start.height : start.y;
+  const maxWidth = west ? anchorX : 1 - anchorX;
+  const maxHeight = north ? anchorY : 1 - anchorY;
+
+  let width = clamp(start.width + (west ? -dx : dx), MIN_CROP, maxWidth);
+  let height = clamp(start.height + (north ? -dy : dy), MIN_CROP, maxHeight);
+  if (ratio) {
+    height = (width * imageAspect) / ratio;
+    if (height > maxHeight) {
+      height = maxHeight;
+      width = (height * ratio) / imageAspect;
+    }
+  }
+
+  return {
+    x: west ? anchorX - width : anchorX,
+    y: north ? anchorY - height : anchorY,
+    width,
+    height,
+  };
+};
+
+const DETECT_SIZE = 300;
+// Luminance spread below which a row/column counts as flat
+const FLAT_STDDEV = 10;
+// How far a flat line may drift from the edge colour and still be border
+const BORDER_TOLERANCE = 28;
+// Never trim more than this much from one side
+const MAX_TRIM = 0.35;
+
+// Finds uniform borders (scanner bed, white photo frames, black bars) by
+// walking in from each edge while rows/columns stay flat and edge-coloured.
+export const detectBorders = (source: HTMLCanvasElement): CropRect => {
+  const scale = Math.min(1, DETECT_SIZE / Math.max(source.width, source.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(source.width * scale));
+  canvas.height = Math.max(1, Math.round(source.height * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return FULL_CROP;
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+  const { width, height } = canvas;
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const luma = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  };
+
+  const lineStats = (count: number, sample: (i: number) => number) => {
+    let sum = 0;
+    let sumSq = 0;
+    for (let i = 0; i < count; i++) {
+      const value = sample(i);
+      sum += value;
+      sumSq += value * value;
+    }
+    const mean = sum / count;
+    return { mean, stddev: Math.sqrt(Math.max(0, sumSq / count - mean * mean)) };
+  };
+
+  // Number of border lines starting from one edge
+  const scan = (lines: number, lineLength: number, sample: (line: number, i: number) => number) => {
+    const edge = lineStats(lineLength, (i) => sample(0, i));
+    if (edge.stddev > FLAT_STDDEV) return 0;
+    const limit = Math.floor(lines * MAX_TRIM);
+    let trimmed = 0;
+    while (trimmed < limit) {
+      const { mean, stddev } = lineStats(lineLength, (i) => sample(trimmed, i));
+      if (stddev > FLAT_STDDEV || Math.abs(mean - edge.mean) > BORDER_TOLERANCE) break;
+      trimmed += 1;
+    }
+    return trimmed;
+  };
+
+  const top = scan(height, width, (line, i) => luma(i, line));
+  const bottom = scan(height, width, (line, i) => luma(i, height - 1 - line));
+  const left = scan(width, height, (line, i) => luma(line, i));
+  const right = scan(width, height, (line, i) => luma(width - 1 - line, i));
+
+  return clampCrop({
+    x: left / width,
+    y: top / height,
+    width: (width - left - right) / width,
+    height: (height - top - bottom) / height,
+  });
+};
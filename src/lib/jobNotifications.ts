@@ -0,0 +1,50 @@
+export type NotificationOutcome = 'completed' | 'failed' | 'nsfw';
+
+const STORAGE_KEY = 'memory-lane:notifications';
+// Reusing the tag replaces an older notification instead of stacking them
+const NOTIFICATION_TAG = 'memory-lane-job';
+
+const TITLES: Record<NotificationOutcome, string> = {
+  completed: 'Your memory is ready',
+  failed: 'Generation failed',
+  nsfw: 'Photo was rejected',
+};
+
+export const notificationsSupported = () => typeof Notification !== 'undefined';
+
+// Opted in and still allowed by the browser
+export const loadNotificationsEnabled = () =>
+  notificationsSupported() &&
+  Notification.permission === 'granted' &&
+  localStorage.getItem(STORAGE_KEY) === 'on';
+
+// Asks for permission on the first opt-in. Resolves to whether notifications are on.
+export const enableNotifications = async () => {
+  if (!notificationsSupported()) return false;
+  const permission =
+    Notification.permission === 'default' ? await Notification.requestPermission() : Notification.permission;
+  if (permission !== 'granted') return false;
+  localStorage.setItem(STORAGE_KEY, 'on');
+  return true;
+};
+
+export const disableNotifications = () => localStorage.removeItem(STORAGE_KEY);
+
+// Only notifies while the user is looking elsewhere. Clicking brings the tab
+// forward and runs `onClick`.
+export const notifyJobOutcome = (outcome: NotificationOutcome, body: string, onClick?: () => void) => {
+  if (!loadNotificationsEnabled()) return;
+  if (document.visibilityState === 'visible' && document.hasFocus()) return;
+
+  try {
+    const notification = new Notification(TITLES[outcome], { body, tag: NOTIFICATION_TAG });
+    notification.onclick = () => {
+      window.focus();
+      notification.close();
+      onClick?.();
+    };
+  } catch (err) {
+    // Some mobile browsers only allow notifications from a service worker
+    console.warn('Could not show notification:', err);
+  }
+};
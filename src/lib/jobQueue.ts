@@ -0,0 +1,196 @@
+// Concurrency-limited queue for batch generations.
+// Framework-agnostic: React subscribes through `onChange` (see useBatchQueue).
+
+import { isCancelledError } from '../api/cancellation';
+import { RateLimitError, describeError } from '../api/errors';
+import type { GenerationSettings } from './generationSettings';
+
+export type QueueItemStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface QueueItem {
+  id: string;
+  label: string;
+  sourceImage: string;
+  // Per-item settings, e.g. one seed per variation; the runner's own otherwise
+  settings?: GenerationSettings;
+  status: QueueItemStatus;
+  // Latest status text reported by the runner while running
+  progress: string;
+  videoUrl?: string;
+  error?: string;
+  attempts: number;
+  addedAt: number;
+  finishedAt?: number;
+}
+
+export type QueueRunner = (
+  item: QueueItem,
+  signal: AbortSignal,
+  onProgress: (status: string) => void
+) => Promise<string>;
+
+interface JobQueueOptions {
+  concurrency: number;
+  run: QueueRunner;
+  onChange: (items: QueueItem[]) => void;
+  // Base delay before retrying after a 429, doubled on each consecutive one
+  rateLimitBackoffMs?: number;
+  maxRateLimitBackoffMs?: number;
+}
+
+let nextId = 0;
+
+export const createJobQueue = ({
+  concurrency: initialConcurrency,
+  run,
+  onChange,
+  rateLimitBackoffMs = 10000,
+  maxRateLimitBackoffMs = 120000,
+}: JobQueueOptions) => {
+  let items: QueueItem[] = [];
+  let concurrency = initialConcurrency;
+  const controllers = new Map<string, AbortController>();
+
+  // While rate limited, no new jobs start until this timestamp
+  let pausedUntil = 0;
+  let consecutiveRateLimits = 0;
+  let resumeTimer: ReturnType<typeof setTimeout> | null = null;
+  // Set by dispose; nothing starts after that
+  let disposed = false;
+
+  const emit = () => onChange([...items]);
+
+  const update = (id: string, patch: Partial<QueueItem>) => {
+    items = items.map((item) => (item.id === id ? { ...item, ...patch } : item));
+    emit();
+  };
+
+  const runningCount = () => items.filter((item) => item.status === 'running').length;
+
+  const scheduleResume = () => {
+    if (resumeTimer) clearTimeout(resumeTimer);
+    resumeTimer = setTimeout(() => {
+      resumeTimer = null;
+      pump();
+    }, Math.max(0, pausedUntil - Date.now()));
+  };
+
+  const start = async (item: QueueItem) => {
+    const controller = new AbortController();
+    controllers.set(item.id, controller);
+    update(item.id, { status: 'running', progress: 'Starting...', error: undefined, attempts: item.attempts + 1 });
+
+    try {
+      const videoUrl = await run(item, controller.signal, (progress) => update(item.id, { progress }));
+      consecutiveRateLimits = 0;
+      update(item.id, { status: 'completed', videoUrl, progress: '', finishedAt: Date.now() });
+    } catch (error) {
+      if (controller.signal.aborted || isCancelledError(error)) {
+        // Removed or cancelled - the item may already be gone from the list
+        if (items.some((i) => i.id === item.id)) {
+          update(item.id, { status: 'cancelled', progress: '' });
+        }
+      } else if (error instanceof RateLimitError) {
+        // Put it back in line and hold off everyone for a while
+        consecutiveRateLimits += 1;
+        const backoff = Math.min(
+          maxRateLimitBackoffMs,
+          rateLimitBackoffMs * 2 ** (consecutiveRateLimits - 1)
+        );
+        pausedUntil = Date.now() + (error.retryAfterMs ?? backoff);
+        console.warn(`Rate limited, pausing the queue for ${Math.round((pausedUntil - Date.now()) / 1000)}s`);
+        update(item.id, {
+          status: 'queued',
+          progress: 'Rate limited, waiting...',
+          attempts: item.attempts,
+        });
+        scheduleResume();
+      } else {
+        update(item.id, {
+          status: 'failed',
+          progress: '',
+          error: describeError(error).message,
+          finishedAt: Date.now(),
+        });
+      }
+    } finally {
+      controllers.delete(item.id);
+      pump();
+    }
+  };
+
+  // Starts as many queued items as the concurrency limit allows
+  const pump = () => {
+    if (disposed) return;
+    if (Date.now() < pausedUntil) {
+      if (!resumeTimer) scheduleResume();
+      return;
+    }
+    let slots = concurrency - runningCount();
+    for (const item of items) {
+      if (slots <= 0) break;
+      if (item.status === 'queued') {
+        slots -= 1;
+        start(item);
+      }
+    }
+  };
+
+  const add = (entries: { label: string; sourceImage: string; settings?: GenerationSettings }[]) => {
+    const now = Date.now();
+    items = [
+      ...items,
+      ...entries.map((entry) => ({
+        ...entry,
+        id: `job-${now}-${nextId++}`,
+        status: 'queued' as const,
+        progress: '',
+        attempts: 0,
+        addedAt: now,
+      })),
+    ];
+    emit();
+    pump();
+  };
+
+  const retry = (id: string) => {
+    const item = items.find((i) => i.id === id);
+    if (!item || (item.status !== 'failed' && item.status !== 'cancelled')) return;
+    update(id, { status: 'queued', error: undefined, videoUrl: undefined, finishedAt: undefined });
+    pump();
+  };
+
+  const remove = (id: string) => {
+    controllers.get(id)?.abort();
+    items = items.filter((item) => item.id !== id);
+    emit();
+    pump();
+  };
+
+  const clearFinished = () => {
+    items = items.filter((item) => item.status === 'queued' || item.status === 'running');
+    emit();
+  };
+
+  const setConcurrency = (value: number) => {
+    concurrency = Math.max(1, value);
+    pump();
+  };
+
+  // Aborts everything and drops what hasn't started; used when the batch view
+  // unmounts. The queue can't be used afterwards.
+  const dispose = () => {
+    disposed = true;
+    if (resumeTimer) clearTimeout(resumeTimer);
+    resumeTimer = null;
+    items = items.filter((item) => item.status !== 'queued');
+    controllers.forEach((controller) => controller.abort());
+    controllers.clear();
+  };
+
+  const isDisposed = () => disposed;
+
+  return { add, retry, remove, clearFinished, setConcurrency, dispose, isDisposed };
+};
+
+export type JobQueue = ReturnType<typeof createJobQueue>;
@@ -0,0 +1,122 @@
+// Opt-in, passphrase-protected storage for API credentials. All profiles are
+// encrypted together with AES-GCM under a key derived from the passphrase
+// with PBKDF2, so nothing readable ever touches localStorage.
+
+export interface CredentialProfile {
+  id: string;
+  // User-facing label, e.g. "Personal" or "Team"
+  name: string;
+  apiKey: string;
+  apiSecret: string;
+}
+
+export interface VaultContents {
+  profiles: CredentialProfile[];
+  activeProfileId: string | null;
+}
+
+// Derived key plus the salt it came from; kept in memory while unlocked so
+// edits can be re-encrypted without asking for the passphrase again
+export interface VaultKey {
+  cryptoKey: CryptoKey;
+  salt: Uint8Array;
+  iterations: number;
+}
+
+interface StoredVault {
+  version: 1;
+  salt: string;
+  iterations: number;
+  iv: string;
+  ciphertext: string;
+}
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super('That passphrase did not unlock your saved keys.');
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+const STORAGE_KEY = 'memory-lane:credential-vault';
+const PBKDF2_ITERATIONS = 310000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+const readStoredVault = (): StoredVault | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    return parsed?.version === 1 ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+export const hasVault = () => readStoredVault() !== null;
+
+export const clearVault = () => localStorage.removeItem(STORAGE_KEY);
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<VaultKey> => {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  const cryptoKey = await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: salt as BufferSource, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+  return { cryptoKey, salt, iterations };
+};
+
+// Key for a brand-new vault, with a fresh random salt
+export const createVaultKey = (passphrase: string) =>
+  deriveKey(passphrase, crypto.getRandomValues(new Uint8Array(16)), PBKDF2_ITERATIONS);
+
+export const writeVault = async (contents: VaultContents, { cryptoKey, salt, iterations }: VaultKey) => {
+  // A new IV for every write - AES-GCM must never reuse one with the same key
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    cryptoKey,
+    new TextEncoder().encode(JSON.stringify(contents))
+  );
+  const stored: StoredVault = {
+    version: 1,
+    salt: toBase64(salt),
+    iterations,
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+};
+
+// Decrypts the stored vault. AES-GCM authenticates the data, so a wrong
+// passphrase fails the decrypt rather than producing garbage.
+export const openVault = async (passphrase: string): Promise<{ contents: VaultContents; key: VaultKey }> => {
+  const stored = readStoredVault();
+  if (!stored) throw new Error('No saved keys found on this device.');
+
+  const key = await deriveKey(passphrase, fromBase64(stored.salt), stored.iterations);
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(stored.iv) },
+      key.cryptoKey,
+      fromBase64(stored.ciphertext)
+    );
+  } catch {
+    throw new WrongPassphraseError();
+  }
+  return { contents: JSON.parse(new TextDecoder().decode(plaintext)), key };
+};
+
+export const createProfileId = () => `profile-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
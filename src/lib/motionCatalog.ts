@@ -0,0 +1,139 @@
+import { MotionUnavailableError } from '../api/errors';
+import { DEFAULT_MOTION_ID, type MotionLibraryEntry, type MotionSetting } from '../api/higgsfield';
+
+// Keyframes (framer-motion style) used to hint at what a motion looks like
+// by animating the user's own photo in the picker.
+export interface MotionPreview {
+  scale?: number[];
+  rotate?: number[];
+  rotateY?: number[];
+  skewX?: number[];
+  x?: number[];
+  y?: number[];
+  duration: number;
+}
+
+export interface MotionPreset {
+  key: string;
+  name: string;
+  description: string;
+  // Higgsfield motion id sent in the `motions` array. Only known up front
+  // for the default motion; the rest are looked up in the library by name.
+  motionId?: string;
+  defaultStrength: number;
+  preview: MotionPreview;
+}
+
+// A preset the user picked, with their chosen strength
+export interface SelectedMotion {
+  key: string;
+  strength: number;
+}
+
+export const MIN_MOTION_STRENGTH = 0.1;
+export const MAX_MOTION_STRENGTH = 1;
+
+// The catalog. Add new presets here - the picker renders whatever is listed.
+// A preset's name must match an entry in the Higgsfield DoP motion library
+// (see applyMotionLibrary) unless it carries a fixed motionId.
+export const MOTION_PRESETS: MotionPreset[] = [
+  {
+    key: 'real-life',
+    name: 'Real-life motion',
+    description: 'Natural, all-round movement of the whole scene.',
+    motionId: DEFAULT_MOTION_ID,
+    defaultStrength: 1,
+    preview: { scale: [1, 1.03, 1], x: [0, 2, 0], duration: 4 },
+  },
+  {
+    key: 'gentle-breathing',
+    name: 'Gentle breathing',
+    description: 'Subtle chest and shoulder movement, as if the subject is breathing.',
+    defaultStrength: 0.5,
+    preview: { scale: [1, 1.015, 1], y: [0, -1, 0], duration: 3.5 },
+  },
+  {
+    key: 'head-turn',
+    name: 'Head turn',
+    description: 'The subject slowly turns their head towards the camera.',
+    defaultStrength: 0.7,
+    preview: { rotateY: [0, 12, 0], duration: 4 },
+  },
+  {
+    key: 'slow-zoom',
+    name: 'Slow zoom',
+    description: 'A gentle push in towards the centre of the photo.',
+    defaultStrength: 0.6,
+    preview: { scale: [1, 1.12], duration: 5 },
+  },
+  {
+    key: 'wind-in-hair',
+    name: 'Wind in hair',
+    description: 'A soft breeze moving hair and loose clothing.',
+    defaultStrength: 0.6,
+    preview: { skewX: [0, 2, -2, 0], duration: 3 },
+  },
+  {
+    key: 'smile',
+    name: 'Smile',
+    description: 'The subject breaks into a warm, natural smile.',
+    defaultStrength: 0.5,
+    preview: { scale: [1, 1.02, 1], rotate: [0, 1, 0], duration: 3 },
+  },
+];
+
+export const DEFAULT_MOTIONS: SelectedMotion[] = [{ key: 'real-life', strength: 1 }];
+
+export const getMotionPreset = (key: string) =>
+  MOTION_PRESETS.find((preset) => preset.key === key);
+
+const clampStrength = (strength: number) =>
+  Math.min(MAX_MOTION_STRENGTH, Math.max(MIN_MOTION_STRENGTH, strength));
+
+// Motion ids resolved from the library, by preset key. null means the
+// provider has no library (the offline demo), so every preset is offered.
+let libraryIds: Record<string, string> | null = {};
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+// Matches presets to the library fetched for the current provider
+export const applyMotionLibrary = (entries: MotionLibraryEntry[] | null) => {
+  if (!entries) {
+    libraryIds = null;
+    return;
+  }
+  const byName = new Map(entries.map((entry) => [normalizeName(entry.name), entry.id]));
+  libraryIds = Object.fromEntries(
+    MOTION_PRESETS.flatMap((preset) => {
+      const id = byName.get(normalizeName(preset.name));
+      return id ? [[preset.key, id]] : [];
+    })
+  );
+};
+
+const resolveMotionId = (preset: MotionPreset) => preset.motionId ?? libraryIds?.[preset.key];
+
+export const isMotionAvailable = (key: string) => {
+  const preset = getMotionPreset(key);
+  return Boolean(preset && (libraryIds === null || resolveMotionId(preset)));
+};
+
+// Converts the user's selection into the payload shape the API expects.
+// Throws MotionUnavailableError rather than sending a different motion than
+// the one chosen. Choosing none falls back to the default motion, since the
+// API needs something to animate with.
+export const toMotionSettings = (selected: SelectedMotion[]): MotionSetting[] => {
+  const unavailable = selected.filter(({ key }) => !isMotionAvailable(key));
+  if (unavailable.length > 0) {
+    throw new MotionUnavailableError(
+      unavailable.map(({ key }) => key),
+      unavailable.map(({ key }) => getMotionPreset(key)?.name ?? key)
+    );
+  }
+  const motions = selected.flatMap(({ key, strength }) => {
+    const preset = getMotionPreset(key);
+    const id = preset && resolveMotionId(preset);
+    return id ? [{ id, strength: clampStrength(strength) }] : [];
+  });
+  return motions.length > 0 ? motions : [{ id: DEFAULT_MOTION_ID, strength: MAX_MOTION_STRENGTH }];
+};
@@ -0,0 +1,26 @@
+import { fetchVideoBlob } from './videoExport';
+
+// Clips the user keeps are stored in Cache Storage under their remote URL,
+// so they still play once the URL expires or the device is offline
+const VIDEO_CACHE = 'memory-lane-videos';
+
+export const offlineCacheSupported = () => typeof caches !== 'undefined';
+
+export const keepVideoOffline = async (url: string) => {
+  const blob = await fetchVideoBlob(url);
+  const cache = await caches.open(VIDEO_CACHE);
+  await cache.put(url, new Response(blob, { headers: { 'Content-Type': blob.type || 'video/mp4' } }));
+};
+
+export const getKeptVideo = async (url: string) => {
+  if (!offlineCacheSupported()) return undefined;
+  const cache = await caches.open(VIDEO_CACHE);
+  const response = await cache.match(url);
+  return response ? response.blob() : undefined;
+};
+
+export const forgetVideo = async (url: string) => {
+  if (!offlineCacheSupported()) return;
+  const cache = await caches.open(VIDEO_CACHE);
+  await cache.delete(url);
+};
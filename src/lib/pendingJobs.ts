@@ -0,0 +1,31 @@
+import { TIMEOUT_MS, type JobHandle } from '../api/higgsfield';
+import type { ProviderId } from '../api/providers';
+import type { GenerationSettings } from './generationSettings';
+import { STORES, getAll, put, remove } from './db';
+
+// A submitted generation that has not finished yet. Persisted so polling
+// can pick up again after a reload instead of losing a paid generation.
+export interface PendingJob extends JobHandle {
+  providerId: ProviderId;
+  sourceImage: string;
+  // Settings as sent, with the seed already resolved
+  settings: GenerationSettings;
+}
+
+export const savePendingJob = (job: PendingJob) => put(STORES.pendingJobs, job);
+
+export const removePendingJob = (requestId: string) => remove(STORES.pendingJobs, requestId);
+
+// Returns jobs that could still finish, newest first. Jobs past the polling
+// timeout are dropped since the API will never report them as done.
+export const getResumableJobs = async () => {
+  const jobs = await getAll<PendingJob>(STORES.pendingJobs);
+  const now = Date.now();
+
+  const expired = jobs.filter((job) => now - job.startedAt >= TIMEOUT_MS);
+  await Promise.all(expired.map((job) => removePendingJob(job.requestId)));
+
+  return jobs
+    .filter((job) => now - job.startedAt < TIMEOUT_MS)
+    .sort((a, b) => b.startedAt - a.startedAt);
+};
@@ -0,0 +1,92 @@
+import type { ProviderId } from '../api/providers';
+import type { GenerationSettings } from './generationSettings';
+
+// What one job costs, per provider. Higgsfield bills in credits and the rate
+// depends on the plan, so the defaults are only a starting point that users
+// adjust in Settings.
+export interface PriceTable {
+  unit: string;
+  perJob: Record<ProviderId, number>;
+  // Added for every motion beyond the first
+  perExtraMotion: number;
+}
+
+export type BudgetPeriod = 'day' | 'month';
+export type BudgetMode = 'warn' | 'block';
+
+export interface BudgetSettings {
+  // null means no cap
+  limit: number | null;
+  period: BudgetPeriod;
+  mode: BudgetMode;
+}
+
+export interface UsageTotals {
+  jobs: number;
+  cost: number;
+}
+
+export interface UsageSummary {
+  today: UsageTotals;
+  month: UsageTotals;
+}
+
+export type BudgetCheck = { status: 'ok' } | { status: 'warn' | 'block'; message: string };
+
+const PRICE_TABLE_KEY = 'memory-lane:price-table';
+const BUDGET_KEY = 'memory-lane:budget';
+
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  unit: 'credits',
+  perJob: { higgsfield: 9, proxy: 9, mock: 0 },
+  perExtraMotion: 0,
+};
+
+export const DEFAULT_BUDGET: BudgetSettings = { limit: null, period: 'month', mode: 'warn' };
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? { ...fallback, ...JSON.parse(raw) } : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export const loadPriceTable = (): PriceTable => {
+  const table = readJson(PRICE_TABLE_KEY, DEFAULT_PRICE_TABLE);
+  // Providers added after the table was saved get their default price
+  return { ...table, perJob: { ...DEFAULT_PRICE_TABLE.perJob, ...table.perJob } };
+};
+
+export const savePriceTable = (table: PriceTable) => localStorage.setItem(PRICE_TABLE_KEY, JSON.stringify(table));
+
+export const loadBudget = (): BudgetSettings => readJson(BUDGET_KEY, DEFAULT_BUDGET);
+
+export const saveBudget = (budget: BudgetSettings) => localStorage.setItem(BUDGET_KEY, JSON.stringify(budget));
+
+export const estimateJobCost = (table: PriceTable, providerId: ProviderId, settings: GenerationSettings) =>
+  (table.perJob[providerId] ?? 0) + Math.max(0, settings.motions.length - 1) * table.perExtraMotion;
+
+export const formatCost = (cost: number, unit: string) =>
+  `${Number.isInteger(cost) ? cost : cost.toFixed(2)} ${unit}`;
+
+// Compares the spend so far plus the next job against the cap
+export const checkBudget = (
+  budget: BudgetSettings,
+  summary: UsageSummary,
+  nextCost: number,
+  unit: string,
+  jobCount = 1
+): BudgetCheck => {
+  if (budget.limit === null || nextCost <= 0) return { status: 'ok' };
+  const spent = budget.period === 'day' ? summary.today.cost : summary.month.cost;
+  if (spent + nextCost <= budget.limit) return { status: 'ok' };
+
+  const periodLabel = budget.period === 'day' ? 'daily' : 'monthly';
+  const jobs = jobCount === 1 ? 'This job' : `These ${jobCount} jobs`;
+  const detail = `${jobs} (~${formatCost(nextCost, unit)}) would take you to ${formatCost(spent + nextCost, unit)} of your ${formatCost(budget.limit, unit)} ${periodLabel} budget.`;
+  return budget.mode === 'block'
+    ? { status: 'block', message: `${detail} Raise the budget in Settings to continue.` }
+    : { status: 'warn', message: `${detail} Generate anyway?` };
+};
@@ -0,0 +1,189 @@
+export type SceneType = 'portrait' | 'couple' | 'group' | 'landscape' | 'street' | 'pet';
+
+// A blank in a template the user fills with a short hint. Filled hints are
+// appended to the template text in slot order.
+export interface PromptSlot {
+  key: string;
+  label: string;
+  placeholder: string;
+  // Words put in front of the hint, e.g. "camera:"
+  lead?: string;
+  // One-click hints shown as chips
+  suggestions?: string[];
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  scene: SceneType;
+  text: string;
+  // Hints the template starts with. Saved templates keep the hints they were saved with.
+  hints?: Record<string, string>;
+  custom?: boolean;
+}
+
+const TEMPLATES_KEY = 'memory-lane:prompt-templates';
+
+export const SCENE_LABELS: Record<SceneType, string> = {
+  portrait: 'Portrait',
+  couple: 'Couple',
+  group: 'Group photo',
+  landscape: 'Landscape',
+  street: 'Street scene',
+  pet: 'Pet',
+};
+
+const CAMERA_SLOT: PromptSlot = {
+  key: 'camera',
+  label: 'Camera',
+  placeholder: 'slow push in',
+  lead: 'camera:',
+  suggestions: ['static camera', 'slow push in', 'gentle pan left', 'slow pull back', 'handheld sway'],
+};
+
+const AMBIENCE_SLOT: PromptSlot = {
+  key: 'ambience',
+  label: 'Surroundings',
+  placeholder: 'leaves blowing',
+};
+
+// Which hints each scene asks for. People scenes lead with what the subjects do.
+export const SCENE_SLOTS: Record<SceneType, PromptSlot[]> = {
+  portrait: [
+    {
+      key: 'action',
+      label: 'What they do',
+      placeholder: 'she smiles and looks at the camera',
+      suggestions: ['smiles and looks at the camera', 'blinks and breathes softly', 'laughs'],
+    },
+    AMBIENCE_SLOT,
+    CAMERA_SLOT,
+  ],
+  couple: [
+    {
+      key: 'action',
+      label: 'What they do',
+      placeholder: 'they turn to each other and smile',
+      suggestions: ['turn to each other and smile', 'hold hands', 'lean in closer'],
+    },
+    AMBIENCE_SLOT,
+    CAMERA_SLOT,
+  ],
+  group: [
+    {
+      key: 'action',
+      label: 'What they do',
+      placeholder: 'everyone laughs and waves',
+      suggestions: ['everyone laughs', 'people wave at the camera', 'small natural movements'],
+    },
+    AMBIENCE_SLOT,
+    CAMERA_SLOT,
+  ],
+  landscape: [
+    {
+      key: 'ambience',
+      label: 'What moves',
+      placeholder: 'leaves blowing',
+      suggestions: ['leaves blowing', 'clouds drifting', 'water rippling', 'grass swaying'],
+    },
+    CAMERA_SLOT,
+  ],
+  street: [
+    {
+      key: 'action',
+      label: 'What happens',
+      placeholder: 'people walk past',
+      suggestions: ['people walk past', 'cars drive by', 'a tram passes'],
+    },
+    AMBIENCE_SLOT,
+    CAMERA_SLOT,
+  ],
+  pet: [
+    {
+      key: 'action',
+      label: 'What it does',
+      placeholder: 'the dog wags its tail',
+      suggestions: ['wags its tail', 'tilts its head', 'ears twitch'],
+    },
+    AMBIENCE_SLOT,
+    CAMERA_SLOT,
+  ],
+};
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'portrait',
+    name: 'Single portrait',
+    scene: 'portrait',
+    text: 'recreate this portrait of one person into a real-life motion like video, keep their face and clothing faithful to the photo',
+  },
+  {
+    id: 'couple',
+    name: 'Couple',
+    scene: 'couple',
+    text: 'recreate this photo of two people into a real-life motion like video, keep both faces faithful to the photo',
+  },
+  {
+    id: 'group',
+    name: 'Group photo',
+    scene: 'group',
+    text: 'recreate this group photo into a real-life motion like video, everyone moves naturally and keeps their likeness',
+  },
+  {
+    id: 'landscape',
+    name: 'Landscape',
+    scene: 'landscape',
+    text: 'recreate this landscape into a real-life motion like video with natural movement of the scenery',
+  },
+  {
+    id: 'street',
+    name: 'Street scene',
+    scene: 'street',
+    text: 'recreate this street scene into a real-life motion like video, the period details stay as they are',
+  },
+  {
+    id: 'pet',
+    name: 'Pet',
+    scene: 'pet',
+    text: 'recreate this photo of an animal into a real-life motion like video, keep its fur and markings faithful to the photo',
+  },
+];
+
+// Template text followed by every filled hint
+export const composePrompt = (template: Pick<PromptTemplate, 'scene' | 'text'>, hints: Record<string, string>) =>
+  [
+    template.text.trim(),
+    ...SCENE_SLOTS[template.scene].map((slot) => {
+      const hint = hints[slot.key]?.trim();
+      if (!hint) return null;
+      return slot.lead ? `${slot.lead} ${hint}` : hint;
+    }),
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+export const loadCustomTemplates = (): PromptTemplate[] => {
+  try {
+    const raw = localStorage.getItem(TEMPLATES_KEY);
+    const parsed: PromptTemplate[] = raw ? JSON.parse(raw) : [];
+    // Drop anything saved for a scene type that no longer exists
+    return parsed.filter((template) => template.scene in SCENE_SLOTS).map((template) => ({ ...template, custom: true }));
+  } catch {
+    return [];
+  }
+};
+
+const saveCustomTemplates = (templates: PromptTemplate[]) =>
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+
+export const addCustomTemplate = (template: Omit<PromptTemplate, 'id' | 'custom'>): PromptTemplate[] => {
+  const next = [...loadCustomTemplates(), { ...template, id: `custom-${Date.now()}`, custom: true }];
+  saveCustomTemplates(next);
+  return next;
+};
+
+export const removeCustomTemplate = (id: string): PromptTemplate[] => {
+  const next = loadCustomTemplates().filter((template) => template.id !== id);
+  saveCustomTemplates(next);
+  return next;
+};
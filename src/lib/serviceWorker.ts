@@ -0,0 +1,9 @@
+// Only production builds get the worker - in dev it would serve stale modules
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register(`${import.meta.env.BASE_URL}sw.js`)
+      .catch((err) => console.warn('Service worker registration failed:', err));
+  });
+};
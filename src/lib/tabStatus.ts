@@ -0,0 +1,113 @@
+// Job progress in the tab title and favicon, for when the tab is in the
+// background. The page's own title and icon come back once the user returns.
+
+export type TabOutcome = 'completed' | 'failed';
+
+const APP_NAME = 'Memory Lane';
+const ICON_SIZE = 32;
+
+let original: { title: string; icon: string | null } | null = null;
+let startedAt: number | null = null;
+let restoreOnReturn: (() => void) | null = null;
+
+const iconLink = () => {
+  let link = document.querySelector<HTMLLinkElement>('link[rel~="icon"]');
+  if (!link) {
+    link = document.createElement('link');
+    link.rel = 'icon';
+    document.head.appendChild(link);
+  }
+  return link;
+};
+
+const remember = () => {
+  if (!original) original = { title: document.title, icon: iconLink().getAttribute('href') };
+};
+
+// A sepia disc with a progress ring, or a solid dot for an outcome.
+// `fraction` null draws a ring without progress.
+const drawIcon = (fraction: number | null, dot?: string) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = ICON_SIZE;
+  canvas.height = ICON_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  const center = ICON_SIZE / 2;
+  ctx.fillStyle = '#F4EBD9';
+  ctx.beginPath();
+  ctx.arc(center, center, center, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.lineWidth = 5;
+  ctx.strokeStyle = '#D4C5A9';
+  ctx.beginPath();
+  ctx.arc(center, center, center - 4, 0, Math.PI * 2);
+  ctx.stroke();
+
+  if (fraction !== null) {
+    ctx.strokeStyle = '#8B5E3C';
+    ctx.beginPath();
+    ctx.arc(center, center, center - 4, -Math.PI / 2, -Math.PI / 2 + Math.PI * 2 * fraction);
+    ctx.stroke();
+  }
+
+  if (dot) {
+    ctx.fillStyle = dot;
+    ctx.beginPath();
+    ctx.arc(center, center, center - 9, 0, Math.PI * 2);
+    ctx.fill();
+  }
+  return canvas.toDataURL('image/png');
+};
+
+const setIcon = (href: string | null) => {
+  if (href) iconLink().href = href;
+};
+
+const cancelRestoreOnReturn = () => {
+  if (!restoreOnReturn) return;
+  document.removeEventListener('visibilitychange', restoreOnReturn);
+  restoreOnReturn = null;
+};
+
+// Called with every status update. Progress is time spent against the time
+// the ETA says is left, so it only moves while an estimate exists.
+export const showTabProgress = (label: string, etaMs: number | null) => {
+  remember();
+  cancelRestoreOnReturn();
+  startedAt ??= Date.now();
+  const elapsed = Date.now() - startedAt;
+  const fraction = etaMs === null ? null : Math.min(0.95, elapsed / (elapsed + etaMs));
+  document.title = `⏳ ${label} – ${APP_NAME}`;
+  setIcon(drawIcon(fraction));
+};
+
+export const resetTab = () => {
+  cancelRestoreOnReturn();
+  startedAt = null;
+  if (!original) return;
+  document.title = original.title;
+  if (original.icon) iconLink().href = original.icon;
+  else iconLink().removeAttribute('href');
+  original = null;
+};
+
+// Leaves the outcome up while the tab is hidden, so it can be spotted in
+// the tab strip, and resets once the user comes back
+export const showTabOutcome = (outcome: TabOutcome) => {
+  if (document.visibilityState === 'visible') {
+    resetTab();
+    return;
+  }
+  remember();
+  startedAt = null;
+  document.title = `${outcome === 'completed' ? '✅ Ready' : '⚠️ Failed'} – ${APP_NAME}`;
+  setIcon(drawIcon(outcome === 'completed' ? 1 : null, outcome === 'completed' ? '#8B5E3C' : '#DC2626'));
+
+  cancelRestoreOnReturn();
+  restoreOnReturn = () => {
+    if (document.visibilityState === 'visible') resetTab();
+  };
+  document.addEventListener('visibilitychange', restoreOnReturn);
+};
@@ -0,0 +1,191 @@
+import { BudgetExceededError } from '../api/errors';
+import type { ProviderId } from '../api/providers';
+import type { GenerationSettings } from './generationSettings';
+import { STORES, getAll, getOne, put } from './db';
+import {
+  checkBudget,
+  estimateJobCost,
+  loadBudget,
+  loadPriceTable,
+  type BudgetCheck,
+  type UsageSummary,
+  type UsageTotals,
+} from './pricing';
+
+export type UsageStatus = 'submitted' | 'completed' | 'failed' | 'cancelled';
+
+// One accepted job. The cost is estimated from the price table when the job
+// is submitted and kept as-is, so later price changes don't rewrite history.
+export interface UsageEntry {
+  // The request id, or a local id for jobs that finished without one
+  id: string;
+  providerId: ProviderId;
+  requestId?: string;
+  settings: GenerationSettings;
+  // Only web URLs are kept - uploads are too large to duplicate here
+  imageUrl?: string;
+  status: UsageStatus;
+  estimatedCost: number;
+  unit: string;
+  error?: string;
+  createdAt: number;
+  finishedAt?: number;
+}
+
+interface RecordUsageParams {
+  providerId: ProviderId;
+  requestId?: string;
+  sourceImage: string;
+  settings: GenerationSettings;
+  startedAt: number;
+  status: UsageStatus;
+  error?: string;
+}
+
+const listeners = new Set<() => void>();
+const notify = () => listeners.forEach((listener) => listener());
+
+export const subscribeToUsage = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Writes run one at a time so a quick job's outcome can't be overwritten by
+// its own still-pending "submitted" write
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+// Records a submission, or settles the entry for a job recorded earlier
+// (possibly before a reload). Jobs the API never accepted cost nothing and
+// are skipped.
+export const recordUsage = (params: RecordUsageParams) => {
+  const write = writeQueue.then(() => writeUsage(params));
+  writeQueue = write.catch(() => undefined);
+  return write;
+};
+
+const writeUsage = async ({
+  providerId,
+  requestId,
+  sourceImage,
+  settings,
+  startedAt,
+  status,
+  error,
+}: RecordUsageParams) => {
+  if (!requestId && status !== 'completed') return;
+
+  const existing = requestId ? await getOne<UsageEntry>(STORES.usageLedger, requestId) : undefined;
+  const finishedAt = status === 'submitted' ? undefined : Date.now();
+  let entry: UsageEntry;
+  if (existing) {
+    entry = { ...existing, status, error, finishedAt };
+  } else {
+    const table = loadPriceTable();
+    entry = {
+      id: requestId ?? `${startedAt}-${Math.random().toString(36).slice(2, 8)}`,
+      providerId,
+      requestId,
+      settings,
+      imageUrl: /^https?:\/\//.test(sourceImage) ? sourceImage : undefined,
+      status,
+      estimatedCost: estimateJobCost(table, providerId, settings),
+      unit: table.unit,
+      error,
+      createdAt: startedAt,
+      finishedAt,
+    };
+  }
+  await put(STORES.usageLedger, entry);
+  notify();
+};
+
+export const getUsage = async () => {
+  const entries = await getAll<UsageEntry>(STORES.usageLedger);
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+const total = (entries: UsageEntry[]): UsageTotals => ({
+  jobs: entries.length,
+  cost: entries.reduce((sum, entry) => sum + entry.estimatedCost, 0),
+});
+
+// Totals for the local calendar day and month. Failed and cancelled jobs
+// count too - credits are reserved when a job is accepted.
+export const summarizeUsage = (entries: UsageEntry[], now = new Date()): UsageSummary => {
+  const dayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  const monthStart = new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+  return {
+    today: total(entries.filter((entry) => entry.createdAt >= dayStart)),
+    month: total(entries.filter((entry) => entry.createdAt >= monthStart)),
+  };
+};
+
+export const getUsageSummary = async () => summarizeUsage(await getUsage());
+
+// Estimated cost of queued jobs that passed reserveBudget and are not in
+// the ledger yet, so jobs starting side by side can't all squeeze under the cap
+let reservedCost = 0;
+
+const withReserved = ({ today, month }: UsageSummary): UsageSummary => ({
+  today: { ...today, cost: today.cost + reservedCost },
+  month: { ...month, cost: month.cost + reservedCost },
+});
+
+// Checks the jobs about to be submitted against the budget cap, counting
+// queued jobs that are about to be sent. A ledger that can't be read never
+// blocks generating.
+export const checkJobsAgainstBudget = async (
+  providerId: ProviderId,
+  jobs: GenerationSettings[]
+): Promise<BudgetCheck> => {
+  const prices = loadPriceTable();
+  const cost = jobs.reduce((sum, settings) => sum + estimateJobCost(prices, providerId, settings), 0);
+  let summary;
+  try {
+    summary = await getUsageSummary();
+  } catch (err) {
+    console.warn('Could not read the usage ledger:', err);
+    return { status: 'ok' };
+  }
+  return checkBudget(loadBudget(), withReserved(summary), cost, prices.unit, jobs.length);
+};
+
+// Asks before going over a budget set to warn. Resolves to whether to go
+// ahead; a blocking budget reports why through `onBlocked`.
+export const confirmWithinBudget = async (
+  providerId: ProviderId,
+  jobs: GenerationSettings[],
+  onBlocked: (message: string) => void
+) => {
+  const check = await checkJobsAgainstBudget(providerId, jobs);
+  if (check.status === 'block') {
+    onBlocked(check.message);
+    return false;
+  }
+  return check.status === 'ok' || window.confirm(check.message);
+};
+
+// Checked again by queued jobs right before they are sent, since the batch
+// was confirmed as a whole against what had been spent back then. Throws
+// BudgetExceededError when the cap blocks; the returned release is called
+// once the job is in the ledger or won't be sent after all.
+export const reserveBudget = (providerId: ProviderId, settings: GenerationSettings) => {
+  // Through the write queue, so concurrent checks see each other's reservations
+  const reservation = writeQueue.then(async () => {
+    const check = await checkJobsAgainstBudget(providerId, [settings]);
+    if (check.status === 'block') throw new BudgetExceededError(check.message);
+
+    const cost = estimateJobCost(loadPriceTable(), providerId, settings);
+    reservedCost += cost;
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      reservedCost -= cost;
+    };
+  });
+  writeQueue = reservation.catch(() => undefined);
+  return reservation;
+};
@@ -0,0 +1,280 @@
+// Saving and re-encoding generated clips. Downloads fetch the MP4 as a blob
+// so it gets a real filename; exports draw the trimmed clip onto a canvas
+// (optionally inside a polaroid frame) and encode it as an animated GIF or
+// a WebM recording.
+
+import axios from 'axios';
+import { GIFEncoder, applyPalette, quantize } from 'gifenc';
+import { MOTION_PRESETS } from './motionCatalog';
+import type { GenerationSettings } from './generationSettings';
+
+export type ExportFormat = 'gif' | 'webm';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // Trim range in seconds
+  start: number;
+  end: number;
+  // How many times the clip plays; 0 loops forever (GIF only)
+  loops: number;
+  fps: number;
+  // Width of the video area, before the frame is added
+  width: number;
+  polaroid: boolean;
+  caption: string;
+}
+
+export interface ExportProgress {
+  // 0-1
+  fraction: number;
+  stage: 'loading' | 'rendering' | 'encoding';
+}
+
+export const DEFAULT_EXPORT_OPTIONS: Omit<ExportOptions, 'end'> = {
+  format: 'gif',
+  start: 0,
+  loops: 0,
+  fps: 12,
+  width: 480,
+  polaroid: true,
+  caption: '',
+};
+
+export const EXPORT_WIDTHS = [320, 480, 640];
+export const EXPORT_FPS = [8, 12, 15, 24];
+export const MIN_TRIM_SECONDS = 0.2;
+// Keeps GIFs from growing into hundreds of megabytes
+const MAX_GIF_FRAMES = 300;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// e.g. memory-lane-2025-06-01-1432-zoom-in-seed36644.mp4
+export const buildExportFilename = (settings: GenerationSettings, extension: string, date = new Date()) => {
+  const stamp = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}`;
+  const motion = settings.motions[0] && MOTION_PRESETS.find((preset) => preset.key === settings.motions[0].key);
+  const parts = ['memory-lane', stamp, motion?.key, `seed${settings.seed}`].filter(Boolean);
+  return `${parts.join('-')}.${extension}`;
+};
+
+export const fetchVideoBlob = async (url: string, signal?: AbortSignal) => {
+  const response = await fetch(url, { signal });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return response.blob();
+};
+
+export const saveBlob = (blob: Blob, filename: string) => {
+  const objectUrl = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = objectUrl;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking straight away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(objectUrl), 60_000);
+};
+
+// Saves the clip under `filename`. Hosts that block cross-origin fetches
+// still get the old behaviour of opening the video in a new tab.
+export const downloadVideo = async (url: string, filename: string) => {
+  try {
+    saveBlob(await fetchVideoBlob(url), filename);
+  } catch (err) {
+    console.warn('Could not download the video directly, opening it instead:', err);
+    window.open(url, '_blank');
+  }
+};
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new axios.CanceledError();
+};
+
+const loadVideo = async (blob: Blob) => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  video.src = URL.createObjectURL(blob);
+  await new Promise<void>((resolve, reject) => {
+    video.onloadeddata = () => resolve();
+    video.onerror = () => reject(new Error('This browser cannot decode the generated video.'));
+  });
+  return video;
+};
+
+const seekTo = (video: HTMLVideoElement, time: number) =>
+  new Promise<void>((resolve) => {
+    video.addEventListener('seeked', () => resolve(), { once: true });
+    video.currentTime = time;
+  });
+
+interface FrameLayout {
+  width: number;
+  height: number;
+  video: { x: number; y: number; width: number; height: number };
+}
+
+// Matches the result view: a white border, with a deeper bottom edge for the
+// caption like an instant photo
+const layoutFrame = (video: HTMLVideoElement, { width, polaroid }: ExportOptions): FrameLayout => {
+  const videoWidth = Math.round(width / 2) * 2;
+  const videoHeight = Math.round((videoWidth * video.videoHeight) / video.videoWidth / 2) * 2;
+  if (!polaroid) {
+    return { width: videoWidth, height: videoHeight, video: { x: 0, y: 0, width: videoWidth, height: videoHeight } };
+  }
+  const border = Math.round(videoWidth * 0.05);
+  const bottom = Math.round(videoWidth * 0.2);
+  return {
+    width: videoWidth + border * 2,
+    height: videoHeight + border + bottom,
+    video: { x: border, y: border, width: videoWidth, height: videoHeight },
+  };
+};
+
+const createFrameRenderer = (video: HTMLVideoElement, options: ExportOptions) => {
+  const layout = layoutFrame(video, options);
+  const canvas = document.createElement('canvas');
+  canvas.width = layout.width;
+  canvas.height = layout.height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: options.format === 'gif' });
+  if (!ctx) throw new Error('Canvas is not supported in this browser.');
+
+  const draw = () => {
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, layout.width, layout.height);
+    const { x, y, width, height } = layout.video;
+    ctx.drawImage(video, x, y, width, height);
+
+    const caption = options.caption.trim();
+    if (options.polaroid && caption) {
+      const captionTop = y + height;
+      const fontSize = Math.round(layout.width * 0.05);
+      ctx.fillStyle = '#2C2C2C';
+      ctx.font = `italic ${fontSize}px Georgia, "Times New Roman", serif`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(caption, layout.width / 2, (captionTop + layout.height) / 2, layout.width - x * 4);
+    }
+  };
+
+  return { canvas, ctx, draw };
+};
+
+const encodeGif = async (
+  video: HTMLVideoElement,
+  options: ExportOptions,
+  onProgress: (progress: ExportProgress) => void,
+  signal?: AbortSignal
+) => {
+  const { canvas, ctx, draw } = createFrameRenderer(video, options);
+  const frameCount = Math.min(MAX_GIF_FRAMES, Math.max(1, Math.round((options.end - options.start) * options.fps)));
+  const delay = Math.round(1000 / options.fps);
+  // GIF counts repeats after the first play
+  const repeat = options.loops === 0 ? 0 : options.loops === 1 ? -1 : options.loops - 1;
+  const gif = GIFEncoder();
+
+  for (let i = 0; i < frameCount; i++) {
+    throwIfAborted(signal);
+    await seekTo(video, options.start + i / options.fps);
+    draw();
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const palette = quantize(data, 256);
+    gif.writeFrame(applyPalette(data, palette), canvas.width, canvas.height, {
+      palette,
+      delay,
+      ...(i === 0 && { repeat }),
+    });
+    onProgress({ stage: 'encoding', fraction: (i + 1) / frameCount });
+  }
+
+  gif.finish();
+  return new Blob([gif.bytes()], { type: 'image/gif' });
+};
+
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+// MediaRecorder records in real time, so the clip is played (not seeked)
+// through the trim range once per loop while frames are copied to the canvas
+const encodeWebm = async (
+  video: HTMLVideoElement,
+  options: ExportOptions,
+  onProgress: (progress: ExportProgress) => void,
+  signal?: AbortSignal
+) => {
+  const mimeType =
+    typeof MediaRecorder !== 'undefined' ? WEBM_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) : undefined;
+  if (!mimeType) throw new Error('WebM export is not supported in this browser. Try GIF instead.');
+
+  const { canvas, draw } = createFrameRenderer(video, options);
+  const recorder = new MediaRecorder(canvas.captureStream(options.fps), { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => e.data.size > 0 && chunks.push(e.data);
+  const stopped = new Promise<void>((resolve) => (recorder.onstop = () => resolve()));
+
+  const loops = Math.max(1, options.loops);
+  const duration = options.end - options.start;
+  let frame = 0;
+
+  try {
+    await seekTo(video, options.start);
+    draw();
+    recorder.start();
+    for (let loop = 0; loop < loops; loop++) {
+      if (loop > 0) await seekTo(video, options.start);
+      await video.play();
+      await new Promise<void>((resolve, reject) => {
+        const tick = () => {
+          if (signal?.aborted) return reject(new axios.CanceledError());
+          draw();
+          const played = Math.min(duration, video.currentTime - options.start);
+          onProgress({ stage: 'rendering', fraction: (loop + played / duration) / loops });
+          if (video.currentTime >= options.end || video.ended) return resolve();
+          frame = requestAnimationFrame(tick);
+        };
+        frame = requestAnimationFrame(tick);
+      });
+      video.pause();
+    }
+  } finally {
+    cancelAnimationFrame(frame);
+    video.pause();
+    if (recorder.state !== 'inactive') recorder.stop();
+  }
+
+  await stopped;
+  return new Blob(chunks, { type: 'video/webm' });
+};
+
+// Renders the trimmed clip into a GIF or WebM blob
+export const exportClip = async (
+  videoUrl: string,
+  options: ExportOptions,
+  onProgress: (progress: ExportProgress) => void = () => {},
+  signal?: AbortSignal
+) => {
+  onProgress({ stage: 'loading', fraction: 0 });
+  let blob: Blob;
+  try {
+    // A same-origin blob keeps the canvas readable regardless of the video host
+    blob = await fetchVideoBlob(videoUrl, signal);
+  } catch (err) {
+    if (signal?.aborted) throw new axios.CanceledError();
+    console.error(err);
+    throw new Error('Could not fetch the video for export. The host may block downloads from this page.');
+  }
+
+  const video = await loadVideo(blob);
+  try {
+    const end = Math.min(options.end, video.duration);
+    const start = Math.min(Math.max(0, options.start), end);
+    if (end - start < MIN_TRIM_SECONDS) throw new Error('Choose a longer section of the clip to export.');
+    const trimmed = { ...options, start, end };
+    return options.format === 'gif'
+      ? await encodeGif(video, trimmed, onProgress, signal)
+      : await encodeWebm(video, trimmed, onProgress, signal);
+  } finally {
+    URL.revokeObjectURL(video.src);
+    video.removeAttribute('src');
+    video.load();
+  }
+};
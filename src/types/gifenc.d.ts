@@ -0,0 +1,34 @@
+// gifenc ships without type definitions; only what lib/videoExport uses is declared
+declare module 'gifenc' {
+  export type Palette = number[][];
+  export type PixelFormat = 'rgb565' | 'rgb444' | 'rgba4444';
+
+  export interface WriteFrameOptions {
+    palette?: Palette;
+    delay?: number;
+    // -1 plays once, 0 loops forever, n > 0 repeats n more times
+    repeat?: number;
+    transparent?: boolean;
+    transparentIndex?: number;
+    dispose?: number;
+  }
+
+  export interface GIFStream {
+    writeFrame(index: Uint8Array, width: number, height: number, options?: WriteFrameOptions): void;
+    finish(): void;
+    bytes(): Uint8Array<ArrayBuffer>;
+    bytesView(): Uint8Array;
+  }
+
+  export function GIFEncoder(options?: { auto?: boolean; initialCapacity?: number }): GIFStream;
+  export function quantize(
+    rgba: Uint8Array | Uint8ClampedArray,
+    maxColors: number,
+    options?: { format?: PixelFormat }
+  ): Palette;
+  export function applyPalette(
+    rgba: Uint8Array | Uint8ClampedArray,
+    palette: Palette,
+    format?: PixelFormat
+  ): Uint8Array;
+}
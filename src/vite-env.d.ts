@@ -1 +1,7 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_HIGGSFIELD_API_KEY?: string;
+  readonly VITE_HIGGSFIELD_API_SECRET?: string;
+  readonly VITE_PROXY_URL?: string;
+}
@@ -1,10 +1,38 @@
-import { defineConfig } from 'vite';
+import { defineConfig, loadEnv, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { hasCredentials, loadProxyConfig } from './server/config';
+import { higgsfieldProxy } from './server/vitePlugin';
 
-export default defineConfig({
-  plugins: [react()],
-  
-  optimizeDeps: {
-    exclude: ['lucide-react'],
-  },
-});
+// Lists the built JS and CSS for public/sw.js to precache on install, so the
+// app opens offline after one visit even though the worker registers late
+const PRECACHE_MANIFEST = 'precache-manifest.json';
+
+const precacheManifest = (): Plugin => {
+  let base = '/';
+  return {
+    name: 'memory-lane-precache-manifest',
+    apply: 'build',
+    configResolved(config) {
+      base = config.base;
+    },
+    generateBundle(_options, bundle) {
+      const files = Object.keys(bundle)
+        .filter((fileName) => fileName.startsWith('assets/'))
+        .map((fileName) => `${base}${fileName}`);
+      this.emitFile({ type: 'asset', fileName: PRECACHE_MANIFEST, source: JSON.stringify(files) });
+    },
+  };
+};
+
+export default defineConfig(({ mode }) => {
+  // Load every variable (not just VITE_*) for the server side only
+  const proxyConfig = loadProxyConfig({ ...process.env, ...loadEnv(mode, process.cwd(), '') });
+
+  return {
+    plugins: [react(), precacheManifest(), hasCredentials(proxyConfig) && higgsfieldProxy(proxyConfig)],
+
+    optimizeDeps: {
+      exclude: ['lucide-react'],
+    },
+  };
+});